@@ -193,7 +193,7 @@ function UserProfileWithContext({ userId }: { userId: string }) {
   if (error) {
     return (
       <div className="error">
-        <p>❌ Loading failed: {error}</p>
+        <p>❌ Loading failed: {error.message}</p>
         <button onClick={refetch}>Retry</button>
       </div>
     );
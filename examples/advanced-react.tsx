@@ -394,7 +394,7 @@ function EnhancedUserProfile({ userId }: { userId: string }) {
             borderRadius: '4px',
             marginBottom: '20px'
           }}>
-            <strong>Loading Failed:</strong> {error}
+            <strong>Loading Failed:</strong> {error.message}
             <button
               onClick={refetch}
               style={{
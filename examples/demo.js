@@ -32,7 +32,7 @@ async function demo() {
       console.log(JSON.stringify(response.data, null, 2));
     } else {
       console.log('❌ User profile retrieval failed:');
-      console.log(`Error: ${response.error}`);
+      console.log(`Error: ${response.error?.message}`);
       console.log('This is expected since we are using a demo token');
     }
 
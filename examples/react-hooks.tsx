@@ -31,7 +31,7 @@ function UserProfile({ userId }: { userId: string }) {
   if (error) {
     return (
       <div className="error">
-        <p>❌ Loading failed: {error}</p>
+        <p>❌ Loading failed: {error.message}</p>
         <button onClick={refetch}>Retry</button>
       </div>
     );
@@ -92,7 +92,7 @@ function LiveUserProfile({ userId }: { userId: string }) {
 
       {error && (
         <div className="error">
-          <p>⚠️ {error}</p>
+          <p>⚠️ {error.message}</p>
         </div>
       )}
 
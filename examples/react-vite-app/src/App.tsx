@@ -22,7 +22,7 @@ function UserProfile({ userId }: { userId: string }) {
   if (error) {
     return (
       <div className="card">
-        <p className="error">❌ Error: {error}</p>
+        <p className="error">❌ Error: {error.message}</p>
         <button onClick={refetch}>Retry</button>
       </div>
     )
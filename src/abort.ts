@@ -0,0 +1,57 @@
+/**
+ * Cancellation helpers for caller-supplied AbortSignals
+ */
+import { APIResponse } from './types';
+import { SenseSpaceError } from './errors';
+
+/**
+ * Error reported when the caller aborts a request
+ */
+export function cancelledError(cause?: unknown): SenseSpaceError {
+  return new SenseSpaceError({
+    kind: 'cancelled',
+    message: 'Request cancelled',
+    retryable: false,
+    cause
+  });
+}
+
+/**
+ * Failed API response for a cancelled request
+ */
+export function cancelledResponse<T>(cause?: unknown): APIResponse<T> {
+  return {
+    success: false,
+    message: null,
+    error: cancelledError(cause)
+  };
+}
+
+/**
+ * Settle with `onAbort()` as soon as `signal` aborts, without cancelling `promise` itself.
+ * Used where one underlying request is shared between several callers.
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal: AbortSignal | undefined, onAbort: () => T): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.resolve(onAbort());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => resolve(onAbort());
+    signal.addEventListener('abort', abort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', abort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', abort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useAsyncAction } from './async-action';
+import { APIResponse } from './types';
+
+function deferred<T>() {
+  let resolve!: (value: APIResponse<T>) => void;
+  const promise = new Promise<APIResponse<T>>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+const ok = <T>(data: T): APIResponse<T> => ({ success: true, message: null, data });
+
+describe('useAsyncAction', () => {
+  it('keeps the latest call when an older one resolves after it', async () => {
+    const { result } = renderHook(() => useAsyncAction<string>());
+    const older = deferred<string>();
+    const newer = deferred<string>();
+
+    let first!: Promise<APIResponse<string>>;
+    let second!: Promise<APIResponse<string>>;
+    act(() => {
+      first = result.current.run(() => older.promise);
+      second = result.current.run(() => newer.promise);
+    });
+
+    await act(async () => {
+      newer.resolve(ok('newer'));
+      await second;
+    });
+    await act(async () => {
+      older.resolve(ok('older'));
+      expect((await first).data).toBe('older');
+    });
+
+    expect(result.current.state).toEqual({ data: 'newer', loading: false, error: null });
+  });
+
+  it('ignores a call still in flight after reset', async () => {
+    const { result } = renderHook(() => useAsyncAction<string>());
+    const pending = deferred<string>();
+
+    let call!: Promise<APIResponse<string>>;
+    act(() => {
+      call = result.current.run(() => pending.promise);
+    });
+    act(() => result.current.reset());
+    await act(async () => {
+      pending.resolve(ok('late'));
+      await call;
+    });
+
+    expect(result.current.state).toEqual({ data: null, loading: false, error: null });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * State handling shared by hooks that run one async call on demand
+ * (wallet prompts, profile updates, mutations)
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { APIResponse, AsyncActionState } from './types';
+import { toSenseSpaceError } from './errors';
+
+const IDLE = { data: null, loading: false, error: null };
+
+/**
+ * Track the latest call's result. `run` resolves to the call's response, never rejects,
+ * and skips state updates after unmount, after `reset`, and once a newer call has started.
+ */
+export function useAsyncAction<TData>() {
+  const [state, setState] = useState<AsyncActionState<TData>>(IDLE);
+  const generationRef = useRef<number>(0);
+  const mountedRef = useRef<boolean>(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const run = useCallback(async (perform: () => Promise<APIResponse<TData>>) => {
+    const generation = ++generationRef.current;
+    setState({ data: null, loading: true, error: null });
+
+    let response: APIResponse<TData>;
+    try {
+      response = await perform();
+    } catch (err) {
+      response = { success: false, message: null, error: toSenseSpaceError(err) };
+    }
+
+    if (mountedRef.current && generation === generationRef.current) {
+      setState({
+        data: response.success ? response.data ?? null : null,
+        loading: false,
+        error: response.success ? null : response.error || null
+      });
+    }
+    return response;
+  }, []);
+
+  const reset = useCallback(() => {
+    generationRef.current++;
+    setState(IDLE);
+  }, []);
+
+  return { state, run, reset, mountedRef };
+}
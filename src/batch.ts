@@ -0,0 +1,95 @@
+/**
+ * DataLoader-style batching for user profile lookups
+ */
+import { APIResponse, UserProfile, UserProfileResult, RequestOptions, BatchOptions } from './types';
+import { SenseSpaceError, toSenseSpaceError } from './errors';
+
+export const DEFAULT_BATCH_OPTIONS: Required<BatchOptions> = {
+  maxConcurrency: 6
+};
+
+interface PendingBatch {
+  ids: Set<string>;
+  promise: Promise<Map<string, UserProfileResult>>;
+}
+
+/**
+ * Collects profile lookups made within the same tick into one batch, fetches each
+ * unique ID once with a concurrency cap, and hands every caller its own slice.
+ */
+export class ProfileBatchLoader {
+  private options: Required<BatchOptions>;
+  private fetchProfile: (userId: string, options?: RequestOptions) => Promise<APIResponse<UserProfile>>;
+  private pending = new Map<string, PendingBatch>();
+
+  constructor(
+    fetchProfile: (userId: string, options?: RequestOptions) => Promise<APIResponse<UserProfile>>,
+    options: BatchOptions = {}
+  ) {
+    this.fetchProfile = fetchProfile;
+    this.options = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  }
+
+  async load(userIds: string[], options?: RequestOptions): Promise<Map<string, UserProfileResult>> {
+    // Only calls with identical request options can share a batch
+    const batchKey = JSON.stringify(options || {});
+    let batch = this.pending.get(batchKey);
+
+    if (!batch) {
+      const ids = new Set<string>();
+      batch = {
+        ids,
+        promise: Promise.resolve().then(() => {
+          this.pending.delete(batchKey);
+          return this.run(Array.from(ids), options);
+        })
+      };
+      this.pending.set(batchKey, batch);
+    }
+
+    userIds.forEach(id => batch!.ids.add(id));
+
+    const results = await batch.promise;
+    const own = new Map<string, UserProfileResult>();
+    userIds.forEach(id => own.set(id, results.get(id)!));
+    return own;
+  }
+
+  private async run(userIds: string[], options?: RequestOptions): Promise<Map<string, UserProfileResult>> {
+    const results = new Map<string, UserProfileResult>();
+    let next = 0;
+
+    const worker = async () => {
+      while (next < userIds.length) {
+        const userId = userIds[next++];
+        results.set(userId, await this.lookup(userId, options));
+      }
+    };
+
+    const workers = Math.max(1, Math.min(this.options.maxConcurrency, userIds.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    return results;
+  }
+
+  private async lookup(userId: string, options?: RequestOptions): Promise<UserProfileResult> {
+    try {
+      const response = await this.fetchProfile(userId, options);
+
+      if (response.success && response.data) {
+        return { status: 'found', profile: response.data };
+      }
+      if (response.success || response.error?.kind === 'not_found') {
+        return { status: 'not_found' };
+      }
+      return {
+        status: 'failed',
+        error: response.error || new SenseSpaceError({
+          kind: 'unknown',
+          message: response.message || 'Failed to fetch user profile'
+        })
+      };
+    } catch (error) {
+      return { status: 'failed', error: toSenseSpaceError(error) };
+    }
+  }
+}
@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { createHostBridge } from './bridge';
+
+const HOST_ORIGIN = 'https://sensespace.xyz';
+
+function createHostFrame(): Window {
+  const frame = document.createElement('iframe');
+  document.body.appendChild(frame);
+  return frame.contentWindow!;
+}
+
+function postFromHost(source: Window, data: unknown, origin = HOST_ORIGIN) {
+  window.dispatchEvent(new MessageEvent('message', { data, origin, source }));
+}
+
+describe('createHostBridge', () => {
+  it('rejects wildcard origins', () => {
+    expect(() => createHostBridge({ allowedOrigins: ['*'] })).toThrow(/not allowed/);
+    expect(() => createHostBridge({ allowedOrigins: [HOST_ORIGIN], targetOrigin: '*' })).toThrow(/not allowed/);
+  });
+
+  it('only accepts responses from the host window on an allowed origin', async () => {
+    const target = createHostFrame();
+    const postMessage = vi.spyOn(target, 'postMessage').mockImplementation(() => undefined);
+    const bridge = createHostBridge({ allowedOrigins: [HOST_ORIGIN], target });
+
+    const pending = bridge.getContext();
+    const { id } = postMessage.mock.calls[0][0] as { id: string };
+    expect(postMessage.mock.calls[0][1]).toBe(HOST_ORIGIN);
+
+    postFromHost(target, { source: 'sensespace-host', type: 'response', id, result: { theme: 'evil' } }, 'https://evil.example');
+    postFromHost(target, { source: 'sensespace-host', type: 'response', id, result: { theme: 'dark' } });
+
+    expect((await pending).data).toEqual({ theme: 'dark' });
+    bridge.destroy();
+  });
+
+  it('reports failing event handlers to onError and still runs the others', () => {
+    const target = createHostFrame();
+    const onError = vi.fn();
+    const consoleError = vi.spyOn(console, 'error');
+    const bridge = createHostBridge({ allowedOrigins: [HOST_ORIGIN], target, onError });
+    const failure = new Error('boom');
+    const handler = vi.fn();
+
+    bridge.on('themeChanged', () => {
+      throw failure;
+    });
+    bridge.on('themeChanged', handler);
+    postFromHost(target, { source: 'sensespace-host', type: 'event', event: 'themeChanged', data: { theme: 'dark' } });
+
+    expect(handler).toHaveBeenCalledWith({ theme: 'dark' });
+    expect(onError).toHaveBeenCalledWith(failure, 'themeChanged');
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+    bridge.destroy();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * postMessage bridge between a mini-app and the SenseSpace host container
+ */
+import {
+  APIResponse,
+  HostBridge,
+  HostBridgeOptions,
+  HostBridgeRequestOptions,
+  HostContext,
+  HostEventMap,
+  HostMessage
+} from './types';
+import { SenseSpaceError } from './errors';
+import { cancelledResponse } from './abort';
+import { isBrowser } from './utils';
+
+const DEFAULT_BRIDGE_TIMEOUT = 10000; // 10 seconds
+const MINIAPP_SOURCE = 'sensespace-miniapp';
+const HOST_SOURCE = 'sensespace-host';
+
+interface PendingRequest {
+  resolve: (response: APIResponse<any>) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+  cleanup: () => void;
+}
+
+function isHostMessage(value: unknown): value is HostMessage {
+  return !!value && typeof value === 'object' && (value as HostMessage).source === HOST_SOURCE;
+}
+
+/**
+ * Host bridge implementation
+ */
+class PostMessageHostBridge implements HostBridge {
+  private target: Window;
+  private targetOrigin: string;
+  private allowedOrigins: string[];
+  private defaultTimeout: number;
+  private onError?: HostBridgeOptions['onError'];
+  private pending = new Map<string, PendingRequest>();
+  private listeners = new Map<string, Set<(data: any) => void>>();
+  private idPrefix = Math.random().toString(36).slice(2, 10);
+  private nextId = 0;
+  private destroyed = false;
+
+  constructor(options: HostBridgeOptions) {
+    if (!options.allowedOrigins || options.allowedOrigins.length === 0) {
+      throw new Error('allowedOrigins is required to create a SenseSpace host bridge');
+    }
+    // '*' would accept messages from any page and post requests to whoever embeds the mini-app
+    if (options.allowedOrigins.includes('*') || options.targetOrigin === '*') {
+      throw new Error('allowedOrigins and targetOrigin must list exact host origins; \'*\' is not allowed');
+    }
+
+    this.allowedOrigins = options.allowedOrigins;
+    this.onError = options.onError;
+    this.target = options.target || window.parent;
+    this.targetOrigin = options.targetOrigin || options.allowedOrigins[0];
+    this.defaultTimeout = options.timeout ?? DEFAULT_BRIDGE_TIMEOUT;
+
+    window.addEventListener('message', this.handleMessage);
+  }
+
+  /**
+   * Whether the mini-app is embedded in a host window it can talk to
+   */
+  get isAvailable(): boolean {
+    return !this.destroyed && !!this.target && this.target !== window;
+  }
+
+  request<T = any>(method: string, params?: unknown, options: HostBridgeRequestOptions = {}): Promise<APIResponse<T>> {
+    if (!this.isAvailable) {
+      return Promise.resolve({
+        success: false,
+        message: null,
+        error: new SenseSpaceError({
+          kind: 'unavailable',
+          message: 'SenseSpace host is not available',
+          retryable: false
+        })
+      });
+    }
+
+    const { timeout = this.defaultTimeout, signal } = options;
+    if (signal?.aborted) {
+      return Promise.resolve(cancelledResponse<T>(signal.reason));
+    }
+
+    const id = `${this.idPrefix}-${++this.nextId}`;
+
+    return new Promise<APIResponse<T>>(resolve => {
+      const onAbort = () => this.settle(id, cancelledResponse<T>(signal?.reason));
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve,
+        timeoutId: setTimeout(() => {
+          this.settle(id, {
+            success: false,
+            message: null,
+            error: new SenseSpaceError({
+              kind: 'timeout',
+              message: `Host did not respond to "${method}" in time`
+            })
+          });
+        }, timeout),
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      });
+
+      this.target.postMessage({ source: MINIAPP_SOURCE, type: 'request', id, method, params }, this.targetOrigin);
+    });
+  }
+
+  getContext(options?: HostBridgeRequestOptions): Promise<APIResponse<HostContext>> {
+    return this.request<HostContext>('getContext', undefined, options);
+  }
+
+  on<K extends keyof HostEventMap>(event: K, handler: (data: HostEventMap[K]) => void): () => void;
+  on(event: string, handler: (data: any) => void): () => void;
+  on(event: string, handler: (data: any) => void): () => void {
+    let handlers = this.listeners.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(event, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      handlers!.delete(handler);
+    };
+  }
+
+  destroy(): void {
+    if (this.destroyed) {
+      return;
+    }
+    this.destroyed = true;
+    window.removeEventListener('message', this.handleMessage);
+
+    Array.from(this.pending.keys()).forEach(id => this.settle(id, cancelledResponse()));
+    this.listeners.clear();
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    // Only trust messages from the host window on an allowlisted origin
+    if (event.source !== this.target || !this.isOriginAllowed(event.origin) || !isHostMessage(event.data)) {
+      return;
+    }
+
+    const message = event.data;
+
+    if (message.type === 'response') {
+      if (message.error) {
+        this.settle(message.id, {
+          success: false,
+          message: message.error.message || null,
+          error: new SenseSpaceError({
+            kind: 'host',
+            message: message.error.message || 'Host request failed',
+            code: message.error.code != null ? String(message.error.code) : undefined,
+            retryable: false
+          })
+        });
+      } else {
+        this.settle(message.id, { success: true, message: null, data: message.result });
+      }
+      return;
+    }
+
+    if (message.type === 'event') {
+      this.listeners.get(message.event)?.forEach(handler => {
+        try {
+          handler(message.data);
+        } catch (error) {
+          // One failing handler must not keep the others from running
+          this.onError?.(error, message.event);
+        }
+      });
+    }
+  };
+
+  private isOriginAllowed(origin: string): boolean {
+    return this.allowedOrigins.includes(origin);
+  }
+
+  private settle(id: string, response: APIResponse<any>): void {
+    const request = this.pending.get(id);
+    if (!request) {
+      return;
+    }
+
+    this.pending.delete(id);
+    clearTimeout(request.timeoutId);
+    request.cleanup();
+    request.resolve(response);
+  }
+}
+
+/**
+ * Create a bridge to the SenseSpace host app this mini-app runs inside
+ */
+export function createHostBridge(options: HostBridgeOptions): HostBridge {
+  if (!isBrowser()) {
+    throw new Error('The SenseSpace host bridge is only available in the browser');
+  }
+
+  return new PostMessageHostBridge(options);
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResponseCache } from './cache';
+import { createMemoryStorage } from './storage';
+import { APIResponse } from './types';
+
+const ok = <T>(data: T): APIResponse<T> => ({ success: true, message: null, data });
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves fresh entries without loading', async () => {
+    const cache = new ResponseCache({ ttl: 1000 });
+    const loader = vi.fn(async () => ok(1));
+
+    await cache.fetch('key', loader);
+    vi.advanceTimersByTime(999);
+    await cache.fetch('key', loader);
+
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('reloads once the ttl has passed', async () => {
+    const cache = new ResponseCache({ ttl: 1000 });
+    const loader = vi.fn()
+      .mockResolvedValueOnce(ok(1))
+      .mockResolvedValueOnce(ok(2));
+
+    await cache.fetch('key', loader);
+    vi.advanceTimersByTime(1000);
+
+    expect((await cache.fetch('key', loader)).data).toBe(2);
+  });
+
+  it('serves stale entries within staleWhileRevalidate and refreshes in the background', async () => {
+    const cache = new ResponseCache({ ttl: 1000, staleWhileRevalidate: 1000 });
+    const loader = vi.fn()
+      .mockResolvedValueOnce(ok(1))
+      .mockResolvedValueOnce(ok(2));
+
+    const onRevalidated = vi.fn();
+
+    await cache.fetch('key', loader);
+    vi.advanceTimersByTime(1500);
+
+    expect((await cache.fetch('key', loader, false, onRevalidated)).data).toBe(1);
+    await vi.waitFor(() => expect(onRevalidated).toHaveBeenCalledWith(ok(2)));
+    expect(cache.peek('key')?.data).toBe(2);
+  });
+
+  it('shares one load between concurrent callers, even when bypassing', async () => {
+    const cache = new ResponseCache();
+    const loader = vi.fn(async () => ok(1));
+
+    await Promise.all([cache.fetch('key', loader), cache.fetch('key', loader, true)]);
+
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not store failures or loads invalidated while in flight', async () => {
+    const cache = new ResponseCache();
+
+    await cache.fetch('failed', async () => ({ success: false, message: 'no' }));
+    expect(cache.peek('failed')).toBeUndefined();
+
+    const pending = cache.fetch('key', async () => ok(1));
+    cache.invalidate('key');
+    await pending;
+    expect(cache.peek('key')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry beyond maxEntries', async () => {
+    const cache = new ResponseCache({ maxEntries: 2 });
+
+    cache.set('a', ok('a'));
+    cache.set('b', ok('b'));
+    cache.peek('a');
+    cache.set('c', ok('c'));
+
+    expect(cache.peek('a')).toBeDefined();
+    expect(cache.peek('b')).toBeUndefined();
+  });
+
+  it('falls back to the persisted entry when the network fails', async () => {
+    const storage = createMemoryStorage();
+    const cache = new ResponseCache({ persist: { storage } });
+    cache.set('key', ok('persisted'));
+
+    const fresh = new ResponseCache({ persist: { storage } });
+    const response = await fresh.fetch('key', async () => ({
+      success: false,
+      message: null,
+      error: { retryable: true } as APIResponse['error']
+    }));
+
+    expect(response.data).toBe('persisted');
+  });
+
+  it('starts the network load without waiting for storage, and gives up on stuck reads', async () => {
+    const storage = { ...createMemoryStorage(), get: () => new Promise<undefined>(() => undefined) };
+    const cache = new ResponseCache({ persist: { storage, readTimeout: 500 } });
+    const loader = vi.fn(async (): Promise<APIResponse<string>> => ({
+      success: false,
+      message: null,
+      error: { retryable: true } as APIResponse['error']
+    }));
+
+    const pending = cache.fetch('key', loader);
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect((await pending).success).toBe(false);
+  });
+
+  it('serves a persisted entry at once with serveStale and refreshes it', async () => {
+    const storage = createMemoryStorage();
+    new ResponseCache({ persist: { storage } }).set('key', ok('persisted'));
+    const cache = new ResponseCache({ persist: { storage, serveStale: true } });
+    const loader = vi.fn(() => new Promise<APIResponse<string>>(resolve => setTimeout(() => resolve(ok('fresh')), 100)));
+
+    const onRevalidated = vi.fn();
+
+    expect((await cache.fetch('key', loader, false, onRevalidated)).data).toBe('persisted');
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(cache.peek('key')?.data).toBe('fresh');
+    expect(onRevalidated).toHaveBeenCalledWith(ok('fresh'));
+  });
+});
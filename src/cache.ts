@@ -0,0 +1,185 @@
+/**
+ * In-memory response cache with TTL, stale-while-revalidate, LRU eviction,
+ * in-flight request deduplication and an optional persistent layer
+ */
+import { APIResponse, CacheOptions } from './types';
+import { PersistentCache } from './persist';
+
+export const DEFAULT_CACHE_OPTIONS: Required<Omit<CacheOptions, 'persist'>> = {
+  ttl: 60000, // 1 minute
+  staleWhileRevalidate: 0,
+  maxEntries: 200
+};
+
+interface CacheEntry<T> {
+  response: APIResponse<T>;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+export class ResponseCache {
+  private options: Required<Omit<CacheOptions, 'persist'>>;
+  private entries = new Map<string, CacheEntry<any>>();
+  private inflight = new Map<string, Promise<APIResponse<any>>>();
+  private persistent: PersistentCache | null;
+
+  constructor({ persist, ...options }: CacheOptions = {}) {
+    this.options = { ...DEFAULT_CACHE_OPTIONS, ...options };
+    this.persistent = PersistentCache.create(persist);
+  }
+
+  /**
+   * Return a cached response for `key`, or load it. Concurrent loads of the same key
+   * share one request; `bypass` skips cached entries but still deduplicates.
+   * `onRevalidated` is called when a background load replaces a stale or persisted
+   * response this call returned.
+   */
+  async fetch<T>(
+    key: string,
+    loader: () => Promise<APIResponse<T>>,
+    bypass: boolean = false,
+    onRevalidated?: (response: APIResponse<T>) => void
+  ): Promise<APIResponse<T>> {
+    if (!bypass) {
+      const entry = this.lookup<T>(key);
+      const now = Date.now();
+
+      if (entry && now < entry.freshUntil) {
+        return entry.response;
+      }
+
+      if (entry && now < entry.staleUntil) {
+        // Serve the stale response now and refresh it in the background
+        this.revalidate(key, this.load(key, loader), onRevalidated);
+        return entry.response;
+      }
+    }
+
+    if (!this.persistent || bypass) {
+      return this.load(key, loader);
+    }
+
+    // Start the network load right away so slow storage never delays it
+    const loading = this.load(key, loader);
+    const reading = this.persistent.get<T>(key);
+
+    if (this.persistent.serveStale) {
+      // A persisted copy that arrives before the network is returned at once
+      const persisted = await Promise.race([reading, loading.then(() => undefined, () => undefined)]);
+      if (persisted) {
+        this.revalidate(key, loading, onRevalidated);
+        return persisted;
+      }
+    }
+
+    // Network first, falling back to the persisted copy when offline or the server is struggling
+    const response = await loading;
+    if (response.success || !response.error?.retryable) {
+      return response;
+    }
+    return (await reading) || response;
+  }
+
+  /**
+   * Read a cached response without loading, regardless of freshness
+   */
+  peek<T>(key: string): APIResponse<T> | undefined {
+    return this.lookup<T>(key)?.response;
+  }
+
+  /**
+   * Store a successful response under `key`, and in persistent storage when enabled
+   */
+  set<T>(key: string, response: APIResponse<T>, ttl: number = this.options.ttl): void {
+    const now = Date.now();
+    this.persistent?.set(key, response);
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      response,
+      freshUntil: now + ttl,
+      staleUntil: now + ttl + this.options.staleWhileRevalidate
+    });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Remove a single entry. A load already in flight for it will not be stored.
+   */
+  invalidate(key: string): void {
+    this.entries.delete(key);
+    this.inflight.delete(key);
+    this.persistent?.delete(key);
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+    this.inflight.clear();
+    this.persistent?.clear();
+  }
+
+  private lookup<T>(key: string): CacheEntry<T> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (Date.now() >= entry.staleUntil) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the end of the map to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Report a background load to `onRevalidated` once it has replaced the entry for `key`
+   */
+  private revalidate<T>(
+    key: string,
+    loading: Promise<APIResponse<T>>,
+    onRevalidated?: (response: APIResponse<T>) => void
+  ): void {
+    loading
+      .then(response => {
+        if (this.entries.get(key)?.response === response) {
+          onRevalidated?.(response);
+        }
+      })
+      .catch(() => undefined);
+  }
+
+  private load<T>(key: string, loader: () => Promise<APIResponse<T>>): Promise<APIResponse<T>> {
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request: Promise<APIResponse<T>> = loader()
+      .then(response => {
+        // Skip storing if the key was invalidated while loading
+        if (response.success && this.inflight.get(key) === request) {
+          this.set(key, response);
+        }
+        return response;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === request) {
+          this.inflight.delete(key);
+        }
+      });
+
+    this.inflight.set(key, request);
+    return request;
+  }
+}
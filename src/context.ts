@@ -0,0 +1,52 @@
+import { createContext, createElement, useContext, useMemo, ReactNode } from 'react';
+import { SenseSpaceClient, SenseSpaceConfig, HostBridge } from './types';
+import { createSenseSpaceClient } from './core';
+
+export const SenseSpaceContext = createContext<SenseSpaceClient | null>(null);
+export const HostBridgeContext = createContext<HostBridge | null>(null);
+
+export interface SenseSpaceProviderProps {
+  client?: SenseSpaceClient; // Use an existing client
+  config?: SenseSpaceConfig; // Or let the provider create one; must be a stable object (module constant or useMemo)
+  bridge?: HostBridge; // Host bridge for wallet hooks
+  children?: ReactNode;
+}
+
+/**
+ * Makes a SenseSpace client available to hooks below it. A new `config` object creates
+ * a new client (and drops its cache), so keep `config` referentially stable.
+ */
+export function SenseSpaceProvider({ client, config, bridge, children }: SenseSpaceProviderProps) {
+  if (!client && !config) {
+    throw new Error('SenseSpaceProvider requires either a `client` or a `config` prop');
+  }
+
+  // Every setting shapes the client, so any change to `config` recreates it
+  const value = useMemo(() => client || createSenseSpaceClient(config!), [client, config]);
+
+  return createElement(
+    SenseSpaceContext.Provider,
+    { value },
+    createElement(HostBridgeContext.Provider, { value: bridge || null }, children)
+  );
+}
+
+/**
+ * Read the SenseSpace client from the nearest SenseSpaceProvider
+ */
+export function useSenseSpace(): SenseSpaceClient {
+  const client = useContext(SenseSpaceContext);
+
+  if (!client) {
+    throw new Error('useSenseSpace must be used within a <SenseSpaceProvider>');
+  }
+
+  return client;
+}
+
+/**
+ * Read the host bridge from the nearest SenseSpaceProvider, or null if none was given
+ */
+export function useHostBridge(): HostBridge | null {
+  return useContext(HostBridgeContext);
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { createSenseSpaceClient } from './core';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const profileResponse = () => jsonResponse({ success: true, message: null, data: { id: 'team/alice#1' } });
+
+describe('profile requests', () => {
+  it('encode the user id as one path segment', async () => {
+    const fetch = vi.fn(async (_url: string, _init?: RequestInit) => profileResponse());
+    const client = createSenseSpaceClient({ token: 't', fetch, cache: false });
+
+    await client.getUserProfile('team/alice#1');
+    await client.updateUserProfile('team/alice#1', { bio: 'hi' });
+    await client.uploadAvatar('team/alice#1', new Blob(['x']));
+
+    expect(fetch.mock.calls.map(([url]) => new URL(url).pathname)).toEqual([
+      '/api/miniapps-user/profile/team%2Falice%231',
+      '/api/miniapps-user/profile/team%2Falice%231',
+      '/api/miniapps-user/profile/team%2Falice%231/avatar'
+    ]);
+  });
+});
+
+describe('endpoint', () => {
+  it('keeps the base path of a full URL', async () => {
+    const fetch = vi.fn(async (_url: string, _init?: RequestInit) => jsonResponse({ success: true, message: null }));
+
+    await createSenseSpaceClient({ token: 't', fetch, endpoint: 'http://localhost:4010/sensespace/' })
+      .request('GET', '/api/thing', { query: { page: 2 } });
+    await createSenseSpaceClient({ token: 't', fetch, endpoint: 'api.example.com/v2' }).request('GET', 'api/thing?a=1');
+
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      'http://localhost:4010/sensespace/api/thing?page=2',
+      'https://api.example.com/v2/api/thing?a=1'
+    ]);
+  });
+});
+
+describe('uploadAvatar', () => {
+  it('sends through a configured fetch even where XMLHttpRequest exists', async () => {
+    expect(typeof XMLHttpRequest).toBe('function');
+    const fetch = vi.fn(async (_url: string, _init?: RequestInit) => profileResponse());
+    const onProgress = vi.fn();
+    const client = createSenseSpaceClient({ token: 't', fetch });
+
+    const response = await client.uploadAvatar('user-1', new Blob(['abcd']), { onProgress });
+
+    expect(response.success).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][1]?.body).toBeInstanceOf(FormData);
+    expect(onProgress).toHaveBeenCalledTimes(1);
+  });
+});
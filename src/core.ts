@@ -1,106 +1,569 @@
-import { SenseSpaceConfig, SenseSpaceClient, UserProfile, APIResponse, RequestOptions, SDKOptions } from './types';
+import {
+  SenseSpaceConfig,
+  SenseSpaceSDKClient,
+  UserProfile,
+  APIResponse,
+  RequestOptions,
+  RequestConfig,
+  HTTPMethod,
+  RetryPolicy,
+  AuthProvider,
+  UserProfileResult,
+  Middleware,
+  RequestContext,
+  ResponseBodyType,
+  FetchFunction,
+  TokenExpiryOptions,
+  ResponseSchema,
+  UserProfileUpdate,
+  UpdateUserProfileOptions,
+  UploadAvatarOptions,
+  UploadProgress,
+  Page,
+  PaginateConfig,
+  QueryParams,
+  SDKOptions
+} from './types';
+import { SenseSpaceError, errorKindFromStatus } from './errors';
+import { createURL, formatErrorMessage } from './utils';
+import { readResponseBody, ParsedBody } from './response';
+import { ResponseCache } from './cache';
+import { ProfileBatchLoader } from './batch';
+import { runRequestPhase, runResponsePhase } from './middleware';
+import { cancelledError, cancelledResponse, raceWithSignal } from './abort';
+import { inspectToken } from './token';
+import { resolveValidation, validateResponse, ResolvedValidation } from './validation';
+import { isRawBody, getBodySize, toUploadProgress, canTrackUploadProgress, createXHRFetch } from './upload';
+import { paginate } from './pagination';
+import { resolveRetryPolicy, isMethodRetryable, computeBackoffDelay, parseRetryAfter, sleep } from './retry';
 
 const DEFAULT_ENDPOINT = 'api.sensespace.xyz';
 const DEFAULT_TIMEOUT = 10000; // 10 seconds
+const DEFAULT_REFRESH_BEFORE = 60000; // 1 minute
+
+/**
+ * Outcome of a single HTTP attempt, with the details needed to decide on a retry
+ */
+interface AttemptResult<T> {
+  response: APIResponse<T>;
+  retryAfter?: number | null;
+}
+
+interface HTTPClientOptions {
+  endpoint?: string;
+  timeout?: number;
+  fetch?: FetchFunction;
+  retry?: RetryPolicy | false;
+  middleware?: Middleware[];
+  tokenExpiry?: TokenExpiryOptions | false;
+  validation?: ResolvedValidation | null;
+}
+
+/**
+ * Turn the configured endpoint into a base URL. Bare hosts default to HTTPS;
+ * a full http(s) URL is used as-is, e.g. for a local stub server.
+ */
+function resolveBaseURL(endpoint: string): string {
+  if (/^https?:\/\//i.test(endpoint)) {
+    return endpoint.replace(/\/+$/, '');
+  }
+  return `https://${endpoint}`;
+}
+
+/**
+ * Build a request URL under the base URL's path, so an endpoint like
+ * `http://localhost:4010/sensespace` keeps its prefix (`createURL` resolves
+ * an absolute path against the origin instead)
+ */
+function createRequestURL(baseURL: string, path: string, query?: QueryParams): string {
+  const base = baseURL.endsWith('/') ? baseURL : `${baseURL}/`;
+  return createURL(base, path.replace(/^\/+/, ''), query);
+}
+
+/**
+ * Build a failed API response from a structured error
+ */
+function errorResponse<T>(error: SenseSpaceError, message: string | null = null): APIResponse<T> {
+  return {
+    success: false,
+    message,
+    error
+  };
+}
 
 /**
  * HTTP client utility for making API requests
  */
 class HTTPClient {
   private baseURL: string;
-  private token: string;
+  private auth: AuthProvider;
   private defaultTimeout: number;
+  private retryPolicy?: RetryPolicy | false;
+  private middleware: Middleware[];
+  private fetchImpl: FetchFunction;
+  private customFetch: boolean;
+  private tokenExpiry: TokenExpiryOptions | false;
+  private validation: ResolvedValidation | null;
+  private refreshPromise: Promise<boolean> | null = null;
+
+  constructor(auth: AuthProvider, options: HTTPClientOptions = {}) {
+    const {
+      endpoint = DEFAULT_ENDPOINT,
+      timeout = DEFAULT_TIMEOUT,
+      retry,
+      middleware = [],
+      fetch: fetchImpl,
+      tokenExpiry = {},
+      validation = null
+    } = options;
 
-  constructor(token: string, endpoint: string = DEFAULT_ENDPOINT, timeout: number = DEFAULT_TIMEOUT) {
-    this.token = token;
-    this.baseURL = `https://${endpoint}`;
+    this.auth = auth;
+    this.baseURL = resolveBaseURL(endpoint);
     this.defaultTimeout = timeout;
+    this.retryPolicy = retry;
+    this.middleware = middleware;
+    this.tokenExpiry = tokenExpiry;
+    this.validation = validation;
+    // Wrap the global fetch so it is never called with a foreign `this` (illegal invocation in browsers)
+    this.fetchImpl = fetchImpl || ((input, init) => globalThis.fetch(input, init));
+    this.customFetch = !!fetchImpl;
   }
 
   private async makeRequest<T>(
-    url: string,
-    options: RequestOptions = {}
+    method: HTTPMethod,
+    path: string,
+    config: RequestConfig = {}
   ): Promise<APIResponse<T>> {
-    const { timeout = this.defaultTimeout, headers = {} } = options;
+    const policy = resolveRetryPolicy(this.retryPolicy, config.retry);
+    const maxAttempts = policy && isMethodRetryable(policy, method) ? Math.max(1, policy.maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      if (config.signal?.aborted) {
+        return cancelledResponse<T>(config.signal.reason);
+      }
+
+      const result = await this.authenticatedRequest<T>(method, path, config, attempt);
+
+      if (!policy || attempt >= maxAttempts || !this.shouldRetry(policy, result.response.error)) {
+        return result.response;
+      }
+
+      let delay = computeBackoffDelay(policy, attempt);
+      if (policy.respectRetryAfter && result.retryAfter != null) {
+        // Give up rather than stall the caller when the server asks for a longer pause
+        if (result.retryAfter > policy.maxDelay) {
+          return result.response;
+        }
+        delay = Math.max(delay, result.retryAfter);
+      }
+
+      await sleep(delay, config.signal);
+    }
+  }
+
+  private shouldRetry(policy: Required<RetryPolicy>, error?: SenseSpaceError): boolean {
+    if (!error) {
+      return false;
+    }
+    if (error.kind === 'timeout' || error.kind === 'network') {
+      return policy.retryOnErrors.includes(error.kind);
+    }
+    return error.status !== undefined && policy.retryOnStatus.includes(error.status);
+  }
+
+  /**
+   * Run an attempt and, on a 401, refresh credentials once and replay it
+   */
+  private async authenticatedRequest<T>(
+    method: HTTPMethod,
+    path: string,
+    config: RequestConfig,
+    attempt: number
+  ): Promise<AttemptResult<T>> {
+    const result = await this.attemptRequest<T>(method, path, config, attempt);
+    const error = result.response.error;
+
+    if (!error || error.status !== 401 || !this.auth.onUnauthorized) {
+      return result;
+    }
+
+    const refreshed = await this.refreshAuth(error);
+    return refreshed ? this.attemptRequest<T>(method, path, config, attempt) : result;
+  }
 
+  /**
+   * Call the provider's refresh hook, sharing one refresh between concurrent 401s
+   */
+  private refreshAuth(error: SenseSpaceError): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = Promise.resolve()
+        .then(() => this.auth.onUnauthorized!(error))
+        .then(result => result !== false, () => false)
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Get the current token, refreshing it first when it is expired or about to expire.
+   * Expired JWTs are rejected locally instead of being sent.
+   */
+  private async resolveToken(): Promise<{ token: string | null; error?: SenseSpaceError }> {
+    const readToken = async () => {
+      try {
+        return { token: await this.auth.getToken() };
+      } catch (error) {
+        return {
+          token: null,
+          error: new SenseSpaceError({
+            kind: 'unauthorized',
+            message: 'Failed to obtain access token',
+            cause: error
+          })
+        };
+      }
+    };
+
+    let current = await readToken();
+    if (current.error || !current.token || this.tokenExpiry === false) {
+      return current;
+    }
+
+    const { refreshBefore = DEFAULT_REFRESH_BEFORE, ...inspection } = this.tokenExpiry;
+    let info = inspectToken(current.token, inspection);
+
+    if (info.expiresIn !== null && info.expiresIn <= refreshBefore && this.auth.onUnauthorized) {
+      const refreshed = await this.refreshAuth(new SenseSpaceError({
+        kind: 'unauthorized',
+        code: info.expired ? 'token_expired' : 'token_expiring',
+        message: info.expired ? 'Access token has expired' : 'Access token is about to expire',
+        retryable: false
+      }));
+
+      if (refreshed) {
+        current = await readToken();
+        if (current.error || !current.token) {
+          return current;
+        }
+        info = inspectToken(current.token, inspection);
+      }
+    }
+
+    if (info.expired) {
+      return {
+        token: null,
+        error: new SenseSpaceError({
+          kind: 'unauthorized',
+          code: 'token_expired',
+          message: 'Access token has expired',
+          retryable: false
+        })
+      };
+    }
+
+    return current;
+  }
+
+  private async attemptRequest<T>(
+    method: HTTPMethod,
+    path: string,
+    config: RequestConfig,
+    attempt: number
+  ): Promise<AttemptResult<T>> {
+    const { timeout = this.defaultTimeout, headers = {}, query, body, responseType = 'json', signal, onUploadProgress } = config;
+
+    const context: RequestContext = {
+      method,
+      path,
+      url: createRequestURL(this.baseURL, path, query),
+      headers: {
+        // Raw bodies carry their own type, e.g. the multipart boundary for FormData
+        ...(isRawBody(body) ? {} : { 'Content-Type': 'application/json' }),
+        ...headers
+      },
+      body,
+      attempt,
+      meta: {}
+    };
+
+    // Token failures skip the request phase but still reach onError, e.g. for logging or a fallback
+    const { token, error: tokenError } = await this.resolveToken();
+    if (tokenError) {
+      return { response: await runResponsePhase(this.middleware, errorResponse<T>(tokenError), context) };
+    }
+    if (token) {
+      context.headers = { 'Authorization': `Bearer ${token}`, ...context.headers };
+    }
+
+    const prepared = await runRequestPhase<T>(this.middleware, context);
+
+    const result: AttemptResult<T> = prepared.response
+      ? { response: prepared.response }
+      : await this.sendRequest<T>(prepared.context, timeout, responseType, signal, onUploadProgress);
+
+    // Only middleware the request reached see the response
+    return {
+      ...result,
+      response: await runResponsePhase(this.middleware.slice(0, prepared.ran), result.response, prepared.context)
+    };
+  }
+
+  private async sendRequest<T>(
+    context: RequestContext,
+    timeout: number,
+    responseType: ResponseBodyType,
+    signal?: AbortSignal,
+    onUploadProgress?: (progress: UploadProgress) => void
+  ): Promise<AttemptResult<T>> {
+    // One controller aborts the fetch on either the timeout or the caller's signal
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const onCallerAbort = () => controller.abort();
+    signal?.addEventListener('abort', onCallerAbort, { once: true });
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    const cleanup = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onCallerAbort);
+    };
 
+    // fetch cannot report upload progress, so progress callbacks switch to XMLHttpRequest where available.
+    // A configured `fetch` is always used as is.
+    const trackProgress = !!onUploadProgress && !this.customFetch && canTrackUploadProgress();
+    const send = trackProgress ? createXHRFetch(onUploadProgress!) : this.fetchImpl;
+
+    let response: Response;
     try {
-      const response = await fetch(`${this.baseURL}${url}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.token}`,
-          'Content-Type': 'application/json',
-          ...headers
-        },
+      response = await send(context.url, {
+        method: context.method,
+        headers: context.headers,
+        body: context.body === undefined
+          ? undefined
+          : isRawBody(context.body) ? context.body : JSON.stringify(context.body),
         signal: controller.signal
       });
+    } catch (error) {
+      cleanup();
 
-      clearTimeout(timeoutId);
-
-      const responseData = await response.json();
+      if (error instanceof Error && error.name === 'AbortError' && !timedOut) {
+        return { response: cancelledResponse<T>(error) };
+      }
 
-      if (!response.ok) {
+      if (error instanceof Error && error.name === 'AbortError') {
         return {
-          success: false,
-          message: responseData.message || null,
-          error: responseData.message || `HTTP ${response.status}: ${response.statusText}`
+          response: errorResponse(new SenseSpaceError({
+            kind: 'timeout',
+            message: 'Request timeout',
+            cause: error
+          }))
         };
       }
 
-      // API response structure already contains success, message, data fields
-      // Return the entire response structure directly
       return {
-        success: responseData.success,
-        message: responseData.message,
-        data: responseData.data
+        response: errorResponse(new SenseSpaceError({
+          kind: 'network',
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+          cause: error
+        }))
       };
+    }
+
+    cleanup();
+
+    if (onUploadProgress && !trackProgress) {
+      // Without progress events, report the upload as complete once the server answers
+      const size = getBodySize(context.body);
+      onUploadProgress(toUploadProgress(size ?? 0, size));
+    }
+
+    const requestId = response.headers.get('X-Request-Id') || undefined;
+
+    const retryAfter = response.status === 429 || response.status === 503
+      ? parseRetryAfter(response.headers.get('Retry-After'))
+      : null;
+
+    let body: ParsedBody;
+    try {
+      body = await readResponseBody(response, responseType);
     } catch (error) {
-      clearTimeout(timeoutId);
+      // A gateway error page is reported by its status; a malformed success body is a parse error
+      return {
+        retryAfter,
+        response: errorResponse(new SenseSpaceError({
+          kind: response.ok ? 'parse' : errorKindFromStatus(response.status),
+          message: response.ok
+            ? formatErrorMessage(error)
+            : `HTTP ${response.status}: ${response.statusText}`,
+          status: response.status,
+          requestId,
+          cause: error
+        }))
+      };
+    }
+
+    const responseData = body.type === 'json' ? body.value : undefined;
+
+    if (!response.ok) {
+      return {
+        retryAfter,
+        response: errorResponse(new SenseSpaceError({
+          kind: errorKindFromStatus(response.status),
+          message: responseData?.message || `HTTP ${response.status}: ${response.statusText}`,
+          status: response.status,
+          code: responseData?.code != null ? String(responseData.code) : undefined,
+          requestId: requestId || responseData?.requestId
+        }), responseData?.message || null)
+      };
+    }
 
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          return {
-            success: false,
-            message: null,
-            error: 'Request timeout'
-          };
+    if (body.type === 'empty') {
+      return {
+        response: {
+          success: true,
+          message: null
         }
-        return {
-          success: false,
+      };
+    }
+
+    if (body.type === 'text' || body.type === 'blob') {
+      return {
+        response: {
+          success: true,
           message: null,
-          error: error.message
-        };
-      }
+          data: body.value as T
+        }
+      };
+    }
 
+    if (responseType === 'json' && (responseData === null || typeof responseData !== 'object')) {
       return {
-        success: false,
-        message: null,
-        error: 'Unknown error occurred'
+        response: errorResponse(new SenseSpaceError({
+          kind: 'parse',
+          message: 'Unexpected response body: expected a JSON object',
+          status: response.status,
+          requestId
+        }))
       };
     }
+
+    // API response structure already contains success, message, data fields
+    // Return the entire response structure directly
+    return {
+      response: {
+        success: responseData.success,
+        message: responseData.message,
+        data: responseData.data
+      }
+    };
+  }
+
+  async request<T>(method: HTTPMethod, path: string, config?: RequestConfig<T>): Promise<APIResponse<T>> {
+    const response = await this.makeRequest<T>(method, path, config);
+    return config?.schema ? this.validate(response, config.schema, method, path) : response;
   }
 
   async getUserProfile(userId: string, options?: RequestOptions): Promise<APIResponse<UserProfile>> {
-    return this.makeRequest<UserProfile>(`/api/miniapps-user/profile/${userId}`, options);
+    return this.profileRequest('GET', `/api/miniapps-user/profile/${encodeURIComponent(userId)}`, options);
+  }
+
+  async updateUserProfile(
+    userId: string,
+    patch: UserProfileUpdate,
+    options: UpdateUserProfileOptions = {}
+  ): Promise<APIResponse<UserProfile>> {
+    const { expectedVersion, ...requestOptions } = options;
+    const headers = { ...requestOptions.headers };
+    if (expectedVersion !== undefined) {
+      headers['If-Match'] = toEntityTag(expectedVersion);
+    }
+
+    return this.profileRequest('PATCH', `/api/miniapps-user/profile/${encodeURIComponent(userId)}`, {
+      ...requestOptions,
+      headers,
+      body: patch
+    });
+  }
+
+  async uploadAvatar(userId: string, file: Blob, options: UploadAvatarOptions = {}): Promise<APIResponse<UserProfile>> {
+    const { fileName, onProgress, ...requestOptions } = options;
+    const form = new FormData();
+    form.append('avatar', file, fileName || (file as File).name || 'avatar');
+
+    return this.profileRequest('POST', `/api/miniapps-user/profile/${encodeURIComponent(userId)}/avatar`, {
+      ...requestOptions,
+      body: form,
+      onUploadProgress: onProgress
+    });
+  }
+
+  /**
+   * Requests that return a profile are checked by the profile validator, if enabled
+   */
+  private async profileRequest(method: HTTPMethod, path: string, config?: RequestConfig): Promise<APIResponse<UserProfile>> {
+    const response = await this.makeRequest<UserProfile>(method, path, config);
+    const schema = this.validation?.userProfile;
+    return schema ? this.validate(response, schema, method, path) : response;
+  }
+
+  /**
+   * Validate response data before it reaches callers or the cache.
+   * Per-request schemas are strict unless the client enables lenient validation.
+   */
+  private validate<T>(response: APIResponse<T>, schema: ResponseSchema<T>, method: HTTPMethod, path: string): APIResponse<T> {
+    return validateResponse(response, schema, this.validation || { mode: 'strict' }, { method, path });
   }
 }
 
+function profileCacheKey(userId: string): string {
+  return `profile:${userId}`;
+}
+
+/**
+ * Quote a version as an HTTP entity tag unless it already is one
+ */
+function toEntityTag(version: string | number): string {
+  const value = String(version);
+  return /^(W\/)?".*"$/.test(value) ? value : `"${value}"`;
+}
+
 /**
  * SenseSpace SDK Client implementation
  */
-class SenseSpaceSDK implements SenseSpaceClient {
+class SenseSpaceSDK implements SenseSpaceSDKClient {
   private httpClient: HTTPClient;
+  private cache: ResponseCache | null;
+  private batchLoader: ProfileBatchLoader;
+  private profileListeners = new Set<(userId: string, profile: UserProfile) => void>();
 
   constructor(config: SenseSpaceConfig) {
-    if (!config.token) {
-      throw new Error('Token is required to initialize SenseSpace SDK');
+    if (!config.token && !config.auth) {
+      throw new Error('Token or auth provider is required to initialize SenseSpace SDK');
     }
 
-    this.httpClient = new HTTPClient(
-      config.token,
-      config.endpoint || DEFAULT_ENDPOINT
+    if (!config.fetch && typeof globalThis.fetch !== 'function') {
+      throw new Error('No global fetch available; pass a fetch implementation in the SenseSpace SDK config');
+    }
+
+    const staticToken = config.token || null;
+    this.httpClient = new HTTPClient(config.auth || { getToken: () => staticToken }, {
+      endpoint: config.endpoint || DEFAULT_ENDPOINT,
+      retry: config.retry,
+      middleware: config.middleware,
+      fetch: config.fetch,
+      tokenExpiry: config.tokenExpiry,
+      validation: resolveValidation(config.validation)
+    });
+    this.cache = config.cache === false ? null : new ResponseCache(config.cache);
+    this.batchLoader = new ProfileBatchLoader(
+      (userId, options) => this.getUserProfile(userId, options),
+      config.batch
     );
   }
 
@@ -109,21 +572,166 @@ class SenseSpaceSDK implements SenseSpaceClient {
    */
   async getUserProfile(userId: string, options?: RequestOptions): Promise<APIResponse<UserProfile>> {
     if (!userId) {
-      return {
-        success: false,
-        message: null,
-        error: 'User ID is required'
-      };
+      return errorResponse(new SenseSpaceError({
+        kind: 'invalid_request',
+        message: 'User ID is required'
+      }));
     }
 
-    return this.httpClient.getUserProfile(userId, options);
+    if (!this.cache) {
+      return this.httpClient.getUserProfile(userId, options);
+    }
+
+    // The shared request must outlive any single caller, so the signal only detaches this caller
+    const { signal, ...sharedOptions } = options || {};
+    return raceWithSignal(
+      this.cache.fetch(
+        profileCacheKey(userId),
+        () => this.httpClient.getUserProfile(userId, sharedOptions),
+        options?.cache === 'no-cache',
+        // A stale or persisted profile was returned; show the refreshed one to subscribers
+        response => {
+          if (response.data) {
+            this.notifyProfileUpdated(userId, response.data);
+          }
+        }
+      ),
+      signal,
+      () => cancelledResponse<UserProfile>(signal?.reason)
+    );
+  }
+
+  /**
+   * Get profiles for many users at once. Calls made in the same tick are coalesced,
+   * and each unique ID is fetched once.
+   */
+  async getUserProfiles(userIds: string[], options?: RequestOptions): Promise<Map<string, UserProfileResult>> {
+    const validIds = Array.from(new Set(userIds.filter(Boolean)));
+
+    if (validIds.length === 0) {
+      return new Map();
+    }
+
+    const { signal, ...sharedOptions } = options || {};
+    return raceWithSignal(
+      this.batchLoader.load(validIds, sharedOptions),
+      signal,
+      () => new Map(validIds.map(id => [id, { status: 'failed', error: cancelledError(signal?.reason) }]))
+    );
+  }
+
+  /**
+   * Change editable profile fields. Pass `expectedVersion` to fail with a 'conflict'
+   * error instead of overwriting someone else's change.
+   */
+  async updateUserProfile(
+    userId: string,
+    patch: UserProfileUpdate,
+    options?: UpdateUserProfileOptions
+  ): Promise<APIResponse<UserProfile>> {
+    // Drop undefined fields so they don't read as "clear this field" once serialized
+    const changes = Object.fromEntries(
+      Object.entries(patch || {}).filter(([, value]) => value !== undefined)
+    ) as UserProfileUpdate;
+
+    if (!userId || Object.keys(changes).length === 0) {
+      return errorResponse(new SenseSpaceError({
+        kind: 'invalid_request',
+        message: userId ? 'Profile update must change at least one field' : 'User ID is required'
+      }));
+    }
+
+    return this.storeProfile(userId, await this.httpClient.updateUserProfile(userId, changes, options));
+  }
+
+  /**
+   * Upload a new avatar image as multipart form data
+   */
+  async uploadAvatar(userId: string, file: Blob, options?: UploadAvatarOptions): Promise<APIResponse<UserProfile>> {
+    if (!userId) {
+      return errorResponse(new SenseSpaceError({ kind: 'invalid_request', message: 'User ID is required' }));
+    }
+    if (typeof Blob === 'undefined' || !(file instanceof Blob) || (file.type && !file.type.startsWith('image/'))) {
+      return errorResponse(new SenseSpaceError({ kind: 'invalid_request', message: 'Avatar must be an image Blob or File' }));
+    }
+
+    return this.storeProfile(userId, await this.httpClient.uploadAvatar(userId, file, options));
+  }
+
+  /**
+   * Subscribe to profiles changed through this client
+   */
+  onProfileUpdated(listener: (userId: string, profile: UserProfile) => void): () => void {
+    this.profileListeners.add(listener);
+    return () => {
+      this.profileListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Read a cached profile without loading it. Returns undefined when the profile is not
+   * cached, has expired or was evicted, or caching is disabled.
+   */
+  peekUserProfile(userId: string): UserProfile | undefined {
+    return this.cache?.peek<UserProfile>(profileCacheKey(userId))?.data;
+  }
+
+  /**
+   * Put a profile returned by a mutation into the cache and notify subscribers
+   */
+  private storeProfile(userId: string, response: APIResponse<UserProfile>): APIResponse<UserProfile> {
+    if (response.success && response.data) {
+      const profile = response.data;
+      this.cache?.set(profileCacheKey(userId), { success: true, message: null, data: profile });
+      this.notifyProfileUpdated(userId, profile);
+    }
+    return response;
+  }
+
+  private notifyProfileUpdated(userId: string, profile: UserProfile): void {
+    this.profileListeners.forEach(listener => listener(userId, profile));
+  }
+
+  /**
+   * Drop the cached profile for a user so the next call refetches it
+   */
+  invalidateUserProfile(userId: string): void {
+    this.cache?.invalidate(profileCacheKey(userId));
+  }
+
+  /**
+   * Drop all cached responses
+   */
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Send an authenticated request to any SenseSpace API endpoint
+   */
+  async request<T = any>(method: HTTPMethod, path: string, config?: RequestConfig<T>): Promise<APIResponse<T>> {
+    if (!path) {
+      return errorResponse(new SenseSpaceError({
+        kind: 'invalid_request',
+        message: 'Request path is required'
+      }));
+    }
+
+    return this.httpClient.request<T>(method, path, config);
+  }
+
+  /**
+   * Walk a list endpoint page by page, e.g. `for await (const response of client.paginate(path))`
+   */
+  paginate<T = any>(path: string, config?: PaginateConfig<T>): AsyncIterableIterator<APIResponse<Page<T>>> {
+    return paginate<T>((method, pagePath, pageConfig) => this.request(method, pagePath, pageConfig), path, config);
   }
 }
 
 /**
  * Create SenseSpace SDK client instance
  */
-export function createSenseSpaceClient(config: SenseSpaceConfig): SenseSpaceClient {
+export function createSenseSpaceClient(config: SenseSpaceConfig): SenseSpaceSDKClient {
   return new SenseSpaceSDK(config);
 }
 
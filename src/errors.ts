@@ -0,0 +1,86 @@
+/**
+ * Structured error model for SenseSpace SDK
+ */
+import { SenseSpaceErrorKind, ValidationIssue } from './types';
+
+export interface SenseSpaceErrorInit {
+  kind: SenseSpaceErrorKind;
+  message: string;
+  status?: number;
+  code?: string;
+  retryable?: boolean;
+  requestId?: string;
+  issues?: ValidationIssue[]; // For 'validation' errors
+  cause?: unknown;
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Error produced by SDK requests. `kind` discriminates the failure category,
+ * HTTP details are filled in when the server responded.
+ */
+export class SenseSpaceError extends Error {
+  readonly kind: SenseSpaceErrorKind;
+  readonly status?: number;
+  readonly code?: string;
+  readonly retryable: boolean;
+  readonly requestId?: string;
+  readonly issues?: ValidationIssue[];
+  readonly cause?: unknown;
+
+  constructor(init: SenseSpaceErrorInit) {
+    super(init.message);
+    this.name = 'SenseSpaceError';
+    this.kind = init.kind;
+    this.status = init.status;
+    this.code = init.code;
+    this.retryable = init.retryable ?? isRetryableByDefault(init.kind, init.status);
+    this.requestId = init.requestId;
+    this.issues = init.issues;
+    this.cause = init.cause;
+  }
+}
+
+/**
+ * Type guard for SDK errors
+ */
+export function isSenseSpaceError(error: unknown): error is SenseSpaceError {
+  return error instanceof SenseSpaceError;
+}
+
+/**
+ * Map an HTTP status code to an error kind
+ */
+export function errorKindFromStatus(status: number): SenseSpaceErrorKind {
+  if (status === 400 || status === 422) return 'invalid_request';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409 || status === 412) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'http';
+}
+
+/**
+ * Wrap an arbitrary thrown value into a SenseSpaceError
+ */
+export function toSenseSpaceError(error: unknown, fallbackMessage: string = 'Unknown error occurred'): SenseSpaceError {
+  if (isSenseSpaceError(error)) {
+    return error;
+  }
+
+  return new SenseSpaceError({
+    kind: 'unknown',
+    message: error instanceof Error ? error.message : fallbackMessage,
+    cause: error
+  });
+}
+
+function isRetryableByDefault(kind: SenseSpaceErrorKind, status?: number): boolean {
+  if (kind === 'timeout' || kind === 'network') {
+    return true;
+  }
+  return status !== undefined && RETRYABLE_STATUSES.includes(status);
+}
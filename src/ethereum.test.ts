@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex as nobleHex, utf8ToBytes } from '@noble/hashes/utils';
+import {
+  keccak256,
+  toChecksumAddress,
+  isAddress,
+  hashPersonalMessage,
+  recoverAddress,
+  recoverMessageAddress
+} from './ethereum';
+
+const hex = (bytes: Uint8Array) => nobleHex(bytes);
+
+// Reference signer built on @noble/curves, independent of the code under test
+function signDigest(digest: Uint8Array, privateKey: Uint8Array): string {
+  const signature = secp256k1.sign(digest, privateKey);
+  return `0x${signature.toCompactHex()}${(27 + signature.recovery!).toString(16)}`;
+}
+
+function addressOf(privateKey: Uint8Array): string {
+  const publicKey = secp256k1.getPublicKey(privateKey, false).slice(1);
+  return `0x${hex(keccak_256(publicKey).slice(12))}`;
+}
+
+describe('keccak256', () => {
+  it('matches known answers', () => {
+    expect(hex(keccak256(new Uint8Array()))).toBe('c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    expect(hex(keccak256(utf8ToBytes('abc')))).toBe('4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+    expect(hex(keccak256(utf8ToBytes('The quick brown fox jumps over the lazy dog'))))
+      .toBe('4d741b6f1eb29cb2a9b9911c82f56fa8d73b04959d3d9d222895df6c0b28aa15');
+  });
+
+  it('matches a reference implementation around the 136-byte block boundary', () => {
+    [0, 1, 55, 135, 136, 137, 271, 272, 273, 1000].forEach(length => {
+      const data = Uint8Array.from({ length }, (_, i) => (i * 31 + length) & 0xff);
+      expect(hex(keccak256(data))).toBe(hex(keccak_256(data)));
+    });
+  });
+});
+
+describe('toChecksumAddress', () => {
+  it('matches the EIP-55 test vectors', () => {
+    [
+      '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+      '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+      '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+      '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+      '0x52908400098527886E0F7030069857D2E4169EE7',
+      '0xde709f2102306220921060314715629080e2fb77'
+    ].forEach(address => {
+      expect(toChecksumAddress(address.toLowerCase())).toBe(address);
+    });
+  });
+
+  it('validates address syntax', () => {
+    expect(isAddress('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed')).toBe(true);
+    expect(isAddress('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAe')).toBe(false);
+    expect(isAddress('5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed')).toBe(false);
+  });
+});
+
+describe('hashPersonalMessage', () => {
+  it('prefixes the message as personal_sign does', () => {
+    expect(hex(hashPersonalMessage('Some data'))).toBe('1da44b586eb0729ff70a73c326926f6ed5a25f5b056e7f47fbc6e58d86871655');
+  });
+});
+
+describe('ecrecover', () => {
+  const privateKey = Uint8Array.from(Buffer.from('4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318', 'hex'));
+
+  it('recovers a known personal_sign signature', () => {
+    const signature = '0xb91467e570a6466aa9e9876cbcd013baba02900b8979d43fe208a4a4f339f5fd6007e74cd82e037b800186422fc2da167c747ef045e5d18a5f5d4300f8e1a0291c';
+    expect(recoverMessageAddress('Some data', signature)).toBe('0x2c7536E3605D9C16a7a3D7b1898e529396a65c23');
+  });
+
+  it('recovers signatures from a reference signer for many keys and messages', () => {
+    for (let i = 1; i <= 8; i++) {
+      const key = keccak_256(utf8ToBytes(`key ${i}`));
+      const message = `message ${i} ${'x'.repeat(i * 7)}`;
+      const signature = signDigest(hashPersonalMessage(message), key);
+
+      expect(recoverMessageAddress(message, signature)).toBe(toChecksumAddress(addressOf(key)));
+    }
+  });
+
+  it('accepts recovery ids 0/1 as well as 27/28', () => {
+    const digest = hashPersonalMessage('hello');
+    const signature = signDigest(digest, privateKey);
+    const v = parseInt(signature.slice(-2), 16) - 27;
+
+    expect(recoverAddress(digest, `${signature.slice(0, -2)}0${v}`)).toBe(recoverAddress(digest, signature));
+  });
+
+  it('does not recover the signer for a tampered message or signature', () => {
+    const signer = toChecksumAddress(addressOf(privateKey));
+    const signature = signDigest(hashPersonalMessage('pay 1 ETH'), privateKey);
+
+    expect(recoverMessageAddress('pay 1 ETH', signature)).toBe(signer);
+    expect(recoverMessageAddress('pay 9 ETH', signature)).not.toBe(signer);
+
+    const flipped = `${signature.slice(0, 10)}${signature[10] === 'a' ? 'b' : 'a'}${signature.slice(11)}`;
+    expect(recoverMessageAddress('pay 1 ETH', flipped)).not.toBe(signer);
+  });
+
+  it('rejects malformed signatures', () => {
+    const digest = hashPersonalMessage('hello');
+    expect(recoverAddress(digest, '0x1234')).toBeNull();
+    expect(recoverAddress(digest, `0x${'00'.repeat(64)}1b`)).toBeNull();
+    expect(recoverAddress(digest, `0x${'ff'.repeat(64)}1b`)).toBeNull();
+    expect(recoverAddress(digest, `${signDigest(digest, privateKey).slice(0, -2)}1d`)).toBeNull();
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Minimal Ethereum primitives for verifying wallet signatures: keccak256,
+ * secp256k1 public key recovery and EIP-191 personal message hashing.
+ */
+
+const MASK_64 = (1n << 64n) - 1n;
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n
+];
+
+// Rotation offsets indexed by x + 5 * y
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14
+];
+
+const KECCAK_RATE = 136; // bytes, for a 256-bit output
+
+function rotl64(value: bigint, shift: number): bigint {
+  if (shift === 0) {
+    return value;
+  }
+  const n = BigInt(shift);
+  return ((value << n) | (value >> (64n - n))) & MASK_64;
+}
+
+function keccakF(state: bigint[]): void {
+  const c = new Array<bigint>(5);
+  const b = new Array<bigint>(25);
+
+  for (let round = 0; round < 24; round++) {
+    // θ
+    for (let x = 0; x < 5; x++) {
+      c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl64(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] ^= d;
+      }
+    }
+
+    // ρ and π
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl64(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+      }
+    }
+
+    // χ
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = b[x + y] ^ (~b[((x + 1) % 5) + y] & MASK_64 & b[((x + 2) % 5) + y]);
+      }
+    }
+
+    // ι
+    state[0] ^= ROUND_CONSTANTS[round];
+  }
+}
+
+/**
+ * Keccak-256 as used by Ethereum (original Keccak padding, not SHA3-256)
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+  const state = new Array<bigint>(25).fill(0n);
+
+  const padded = new Uint8Array(Math.ceil((data.length + 1) / KECCAK_RATE) * KECCAK_RATE);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  for (let offset = 0; offset < padded.length; offset += KECCAK_RATE) {
+    for (let lane = 0; lane < KECCAK_RATE / 8; lane++) {
+      let value = 0n;
+      for (let i = 7; i >= 0; i--) {
+        value = (value << 8n) | BigInt(padded[offset + lane * 8 + i]);
+      }
+      state[lane] ^= value;
+    }
+    keccakF(state);
+  }
+
+  const output = new Uint8Array(32);
+  for (let lane = 0; lane < 4; lane++) {
+    let value = state[lane];
+    for (let i = 0; i < 8; i++) {
+      output[lane * 8 + i] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+  }
+  return output;
+}
+
+// secp256k1 curve parameters
+const P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const G: Point = {
+  x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n
+};
+
+type Point = { x: bigint; y: bigint } | null; // null is the point at infinity
+
+function mod(a: bigint, m: bigint = P): bigint {
+  const result = a % m;
+  return result >= 0n ? result : result + m;
+}
+
+function modInverse(a: bigint, m: bigint = P): bigint {
+  let [low, high] = [mod(a, m), m];
+  let [lm, hm] = [1n, 0n];
+  while (low > 1n) {
+    const ratio = high / low;
+    [lm, hm] = [hm - lm * ratio, lm];
+    [low, high] = [high - low * ratio, low];
+  }
+  return mod(lm, m);
+}
+
+function modPow(base: bigint, exponent: bigint, m: bigint = P): bigint {
+  let result = 1n;
+  base = mod(base, m);
+  while (exponent > 0n) {
+    if (exponent & 1n) {
+      result = (result * base) % m;
+    }
+    base = (base * base) % m;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+function pointAdd(a: Point, b: Point): Point {
+  if (!a) return b;
+  if (!b) return a;
+
+  let slope: bigint;
+  if (a.x === b.x) {
+    if (mod(a.y + b.y) === 0n) {
+      return null;
+    }
+    slope = mod(3n * a.x * a.x * modInverse(2n * a.y));
+  } else {
+    slope = mod((b.y - a.y) * modInverse(b.x - a.x));
+  }
+
+  const x = mod(slope * slope - a.x - b.x);
+  return { x, y: mod(slope * (a.x - x) - a.y) };
+}
+
+function pointMultiply(point: Point, scalar: bigint): Point {
+  let result: Point = null;
+  let addend = point;
+  while (scalar > 0n) {
+    if (scalar & 1n) {
+      result = pointAdd(result, addend);
+    }
+    addend = pointAdd(addend, addend);
+    scalar >>= 1n;
+  }
+  return result;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  let value = 0n;
+  bytes.forEach(byte => {
+    value = (value << 8n) | BigInt(byte);
+  });
+  return value;
+}
+
+function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  const body = hex.replace(/^0x/i, '');
+  if (body.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(body)) {
+    return null;
+  }
+  const bytes = new Uint8Array(body.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(body.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Recover the uncompressed public key (x and y) from a digest and a 65-byte signature
+ */
+function recoverPublicKey(digest: Uint8Array, signature: Uint8Array): Point {
+  if (signature.length !== 65) {
+    return null;
+  }
+
+  const r = bytesToBigInt(signature.slice(0, 32));
+  const s = bytesToBigInt(signature.slice(32, 64));
+  const v = signature[64];
+  const recovery = v >= 27 ? v - 27 : v;
+
+  if (recovery > 1 || r <= 0n || r >= N || s <= 0n || s >= N) {
+    return null;
+  }
+
+  // Lift r to the curve point R with the parity given by the recovery id
+  const ySquared = mod(r * r * r + 7n);
+  let y = modPow(ySquared, (P + 1n) / 4n);
+  if (mod(y * y) !== ySquared) {
+    return null;
+  }
+  if ((y & 1n) !== BigInt(recovery)) {
+    y = P - y;
+  }
+
+  // Q = r^-1 (sR - eG)
+  const e = bytesToBigInt(digest);
+  const rInverse = modInverse(r, N);
+  const sR = pointMultiply({ x: r, y }, s);
+  const eG = pointMultiply(G, mod(-e, N));
+  return pointMultiply(pointAdd(sR, eG), rInverse);
+}
+
+/**
+ * EIP-55 mixed-case checksum encoding of an address
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.replace(/^0x/i, '').toLowerCase();
+  const hash = bytesToHex(keccak256(new TextEncoder().encode(lower)));
+  let result = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return result;
+}
+
+/**
+ * Check for a 20-byte hex address
+ */
+export function isAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+/**
+ * Hash a message the way `personal_sign` does (EIP-191 version 0x45)
+ */
+export function hashPersonalMessage(message: string): Uint8Array {
+  const body = new TextEncoder().encode(message);
+  const prefix = new TextEncoder().encode(`\x19Ethereum Signed Message:\n${body.length}`);
+  const data = new Uint8Array(prefix.length + body.length);
+  data.set(prefix);
+  data.set(body, prefix.length);
+  return keccak256(data);
+}
+
+/**
+ * Recover the checksummed address that produced a signature over a digest, or null
+ */
+export function recoverAddress(digest: Uint8Array, signatureHex: string): string | null {
+  const signature = hexToBytes(signatureHex);
+  const point = signature ? recoverPublicKey(digest, signature) : null;
+  if (!point) {
+    return null;
+  }
+
+  const publicKey = new Uint8Array(64);
+  publicKey.set(bigIntToBytes(point.x, 32));
+  publicKey.set(bigIntToBytes(point.y, 32), 32);
+  return toChecksumAddress(bytesToHex(keccak256(publicKey).slice(12)));
+}
+
+/**
+ * Recover the address that signed a message with `personal_sign`
+ */
+export function recoverMessageAddress(message: string, signatureHex: string): string | null {
+  return recoverAddress(hashPersonalMessage(message), signatureHex);
+}
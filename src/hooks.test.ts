@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { createElement, ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useCurrentUser, useUpdateUserProfile, useUserProfile } from './hooks';
+import { createMockClient, createMockHostBridge } from './mock';
+import { SenseSpaceProvider, useSenseSpace } from './context';
+import { createSenseSpaceClient } from './core';
+import { SenseSpaceClient, SenseSpaceConfig } from './types';
+
+// A hand-written client with only the required members
+function createMinimalClient(): SenseSpaceClient {
+  return {
+    getUserProfile: vi.fn(async (userId: string) => ({ success: true, message: null, data: { id: userId } })),
+    request: vi.fn()
+  };
+}
+
+describe('useUpdateUserProfile', () => {
+  it('tracks loading and the updated profile, and updates useUserProfile', async () => {
+    const client = createMockClient({ profiles: [{ id: 'user-1', bio: 'old' }] });
+    const { result } = renderHook(() => ({
+      profile: useUserProfile(client, 'user-1'),
+      update: useUpdateUserProfile(client)
+    }));
+    await waitFor(() => expect(result.current.profile.data?.bio).toBe('old'));
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = result.current.update.updateUserProfile('user-1', { bio: 'new' });
+    });
+    expect(result.current.update.loading).toBe(true);
+    await act(() => pending);
+
+    expect(result.current.update.data?.bio).toBe('new');
+    expect(result.current.profile.data?.bio).toBe('new');
+
+    act(() => result.current.update.reset());
+    expect(result.current.update.data).toBeNull();
+  });
+
+  it('reports methods a hand-written client does not implement', async () => {
+    const client = createMinimalClient();
+    const { result } = renderHook(() => ({
+      profile: useUserProfile(client, 'user-1'),
+      update: useUpdateUserProfile(client)
+    }));
+    await waitFor(() => expect(result.current.profile.data?.id).toBe('user-1'));
+
+    const response = await act(() => result.current.update.uploadAvatar('user-1', new Blob(['x'])));
+
+    expect(response.error?.kind).toBe('invalid_request');
+    expect(result.current.update.error?.kind).toBe('invalid_request');
+  });
+});
+
+describe('useUserProfile', () => {
+  it('shows the background refresh of a stale profile', async () => {
+    let bio = 'old';
+    const fetch = vi.fn(async () => new Response(
+      JSON.stringify({ success: true, message: null, data: { id: 'user-1', bio } }),
+      { headers: { 'Content-Type': 'application/json' } }
+    ));
+    const client = createSenseSpaceClient({ token: 't', fetch, cache: { ttl: 0, staleWhileRevalidate: 60000 } });
+    await client.getUserProfile('user-1');
+
+    bio = 'new';
+    const { result } = renderHook(() => useUserProfile(client, 'user-1'));
+
+    await waitFor(() => expect(result.current.data?.bio).toBe('new'));
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('useCurrentUser', () => {
+  it('asks the bridge from SenseSpaceProvider for the launch context', async () => {
+    const client = createMockClient({ profiles: [{ id: 'user-1', bio: 'from bridge' }] });
+    const bridge = createMockHostBridge({ context: { user: { id: 'user-1' }, platform: 'ios' } });
+    const wrapper = ({ children }: { children?: ReactNode }) => createElement(SenseSpaceProvider, { client, bridge }, children);
+
+    const { result } = renderHook(() => useCurrentUser(), { wrapper });
+
+    await waitFor(() => expect(result.current.data?.bio).toBe('from bridge'));
+    expect(result.current.launchContext?.platform).toBe('ios');
+  });
+});
+
+describe('SenseSpaceProvider', () => {
+  it('keeps the client while config is the same object and recreates it on any change', () => {
+    let config: SenseSpaceConfig = { token: 't' };
+    const wrapper = ({ children }: { children?: ReactNode }) => createElement(SenseSpaceProvider, { config }, children);
+    const { result, rerender } = renderHook(() => useSenseSpace(), { wrapper });
+    const first = result.current;
+
+    rerender();
+    expect(result.current).toBe(first);
+
+    config = { ...config, retry: false };
+    rerender();
+    expect(result.current).not.toBe(first);
+  });
+});
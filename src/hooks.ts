@@ -1,55 +1,175 @@
-import { useState, useEffect, useCallback } from 'react';
-import { SenseSpaceClient, UserProfile, UseUserProfileReturn, RequestOptions } from './types';
-import { formatErrorMessage } from './utils';
+import { useState, useEffect, useCallback, useRef, useContext, useMemo } from 'react';
+import {
+  SenseSpaceClient,
+  UserProfile,
+  UseUserProfileReturn,
+  UseUserProfileOptions,
+  LaunchContext,
+  LaunchContextOptions,
+  UseLaunchContextReturn,
+  UseCurrentUserReturn,
+  APIResponse,
+  HostBridgeRequestOptions,
+  SenseSpaceWallet,
+  SignMessageRequest,
+  SignMessageResult,
+  SignTypedDataRequest,
+  SignTypedDataResult,
+  TransactionRequest,
+  TransactionResult,
+  SignInRequest,
+  SignInResult,
+  UserProfileUpdate,
+  UpdateUserProfileOptions,
+  UploadAvatarOptions,
+  UploadProgress,
+  UseUpdateUserProfileReturn
+} from './types';
+import { SenseSpaceError, toSenseSpaceError } from './errors';
+import { SenseSpaceContext, HostBridgeContext } from './context';
+import { getLaunchContext } from './launch';
+import { createWallet } from './wallet';
+import { signInWithWallet } from './siwe';
+import { useAsyncAction } from './async-action';
+
+interface ProfileRequestState {
+  data: UserProfile | null;
+  userId: string | null;
+  error: SenseSpaceError | null;
+  isFetching: boolean;
+}
+
+const INITIAL_PROFILE_STATE: ProfileRequestState = {
+  data: null,
+  userId: null,
+  error: null,
+  isFetching: false
+};
 
 /**
- * React Hook for fetching user profile with loading and error states
+ * React Hook for fetching user profile with loading and error states.
+ * Only the latest request's result is applied; previous data stays visible while
+ * a new profile loads (`isFetching`), and `userId` tells which user `data` belongs to.
+ * Without a `client` argument, the client comes from the nearest SenseSpaceProvider.
  */
+export function useUserProfile(userId: string, options?: UseUserProfileOptions): UseUserProfileReturn;
 export function useUserProfile(
   client: SenseSpaceClient,
   userId: string,
-  options?: RequestOptions & { enabled?: boolean; refetchInterval?: number }
+  options?: UseUserProfileOptions
+): UseUserProfileReturn;
+export function useUserProfile(
+  ...args: [string, UseUserProfileOptions?] | [SenseSpaceClient, string, UseUserProfileOptions?]
 ): UseUserProfileReturn {
+  const contextClient = useContext(SenseSpaceContext);
+  const [client, userId, options] = typeof args[0] === 'string'
+    ? [contextClient, args[0], args[1] as UseUserProfileOptions | undefined]
+    : [args[0], args[1] as string, args[2]];
+
+  if (typeof args[0] === 'string' && !contextClient) {
+    throw new Error('useUserProfile(userId) must be used within a <SenseSpaceProvider>; pass a client explicitly otherwise');
+  }
+
   const { enabled = true, refetchInterval, ...requestOptions } = options || {};
 
-  const [data, setData] = useState<UserProfile | null>(null);
-  const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [state, setState] = useState<ProfileRequestState>(INITIAL_PROFILE_STATE);
+  const controllerRef = useRef<AbortController | null>(null);
+  const generationRef = useRef<number>(0);
+  const mountedRef = useRef<boolean>(true);
 
-  const fetchUserProfile = useCallback(async () => {
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const fetchUserProfile = useCallback(async (fresh: boolean = false) => {
     if (!enabled || !userId || !client) {
+      generationRef.current++;
+      setState(prev => prev.isFetching ? { ...prev, isFetching: false } : prev);
       return;
     }
 
-    setLoading(true);
-    setError(null);
+    // Only the latest request matters; abort the previous one
+    const generation = ++generationRef.current;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const { signal: callerSignal } = requestOptions;
+    const forwardAbort = () => controller.abort();
+    callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+
+    const isCurrent = () => mountedRef.current && generation === generationRef.current;
+
+    setState(prev => ({ ...prev, error: null, isFetching: true }));
 
+    let next: Partial<ProfileRequestState>;
     try {
-      const response = await client.getUserProfile(userId, requestOptions);
+      const response = await client.getUserProfile(userId, {
+        ...requestOptions,
+        ...(fresh ? { cache: 'no-cache' as const } : {}),
+        signal: controller.signal
+      });
 
       if (response.success && response.data) {
-        setData(response.data);
+        next = { data: response.data, userId, error: null };
+      } else if (response.error?.kind === 'cancelled') {
+        next = {};
       } else {
-        setError(response.error || 'Failed to fetch user profile');
-        setData(null);
+        next = {
+          data: null,
+          userId: null,
+          error: response.error || new SenseSpaceError({
+            kind: 'unknown',
+            message: response.message || 'Failed to fetch user profile'
+          })
+        };
       }
     } catch (err) {
-      setError(formatErrorMessage(err));
-      setData(null);
+      next = { data: null, userId: null, error: toSenseSpaceError(err) };
     } finally {
-      setLoading(false);
+      callerSignal?.removeEventListener('abort', forwardAbort);
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+    }
+
+    // Responses from superseded requests or after unmount are dropped
+    if (isCurrent()) {
+      setState(prev => ({ ...prev, ...next, isFetching: false }));
     }
-  }, [client, userId, enabled, JSON.stringify(requestOptions)]);
+  }, [client, userId, enabled, requestOptions.signal, JSON.stringify(requestOptions)]);
 
+  // Manual and interval refetches bypass the client cache
   const refetch = useCallback(async () => {
-    await fetchUserProfile();
+    await fetchUserProfile(true);
   }, [fetchUserProfile]);
 
-  // Initial fetch and dependencies effect
+  // Initial fetch and dependencies effect; aborts the request on change or unmount
   useEffect(() => {
     fetchUserProfile();
+
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
   }, [fetchUserProfile]);
 
+  // Show profiles updated through the client (e.g. by useUpdateUserProfile) without refetching
+  useEffect(() => {
+    if (!client?.onProfileUpdated || !userId || !enabled) {
+      return;
+    }
+
+    return client.onProfileUpdated((updatedUserId, profile) => {
+      if (mountedRef.current && updatedUserId === userId) {
+        setState(prev => ({ ...prev, data: profile, userId, error: null }));
+      }
+    });
+  }, [client, userId, enabled]);
+
   // Auto-refetch interval effect
   useEffect(() => {
     if (!refetchInterval || !enabled) {
@@ -57,32 +177,250 @@ export function useUserProfile(
     }
 
     const interval = setInterval(() => {
-      fetchUserProfile();
+      fetchUserProfile(true);
     }, refetchInterval);
 
     return () => clearInterval(interval);
   }, [refetchInterval, enabled, fetchUserProfile]);
 
   return {
-    data,
-    loading,
-    error,
+    data: state.data,
+    userId: state.userId,
+    loading: state.isFetching && !state.data,
+    isFetching: state.isFetching,
+    error: state.error,
     refetch
   };
 }
 
 /**
- * Simple React Hook for managing SenseSpace client state
+ * React Hook for the launch context the mini-app was opened with.
+ * Falls back to the host bridge from SenseSpaceProvider when none is passed.
  */
-export function useSenseSpaceClient(client: SenseSpaceClient | null) {
-  const [isReady, setIsReady] = useState<boolean>(false);
+export function useLaunchContext(options?: LaunchContextOptions): UseLaunchContextReturn {
+  const contextBridge = useContext(HostBridgeContext);
+  const [data, setData] = useState<LaunchContext | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<SenseSpaceError | null>(null);
+
+  const { url, bridge = contextBridge || undefined, timeout } = options || {};
 
   useEffect(() => {
-    setIsReady(!!client);
-  }, [client]);
+    const controller = new AbortController();
+    setLoading(true);
+
+    getLaunchContext({ url, bridge, timeout, signal: controller.signal })
+      .then(response => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        setData(response.success ? response.data || null : null);
+        setError(response.success ? null : response.error || null);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          setData(null);
+          setError(toSenseSpaceError(err));
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [url, bridge, timeout]);
 
   return {
-    client,
-    isReady
+    data,
+    loading,
+    error
   };
+}
+
+/**
+ * React Hook for the profile of the user who opened the mini-app.
+ * Resolves the launch context first, then fetches that user's profile.
+ * The client and host bridge default to those from SenseSpaceProvider.
+ */
+export function useCurrentUser(options?: UseUserProfileOptions & LaunchContextOptions): UseCurrentUserReturn;
+export function useCurrentUser(
+  client: SenseSpaceClient,
+  options?: UseUserProfileOptions & LaunchContextOptions
+): UseCurrentUserReturn;
+export function useCurrentUser(
+  ...args: [(UseUserProfileOptions & LaunchContextOptions)?] | [SenseSpaceClient, (UseUserProfileOptions & LaunchContextOptions)?]
+): UseCurrentUserReturn {
+  const contextClient = useContext(SenseSpaceContext);
+  const explicitClient = isClient(args[0]);
+  const client = explicitClient ? args[0] as SenseSpaceClient : contextClient;
+  const options = (explicitClient ? args[1] : args[0]) as (UseUserProfileOptions & LaunchContextOptions) | undefined;
+
+  if (!client) {
+    throw new Error('useCurrentUser() must be used within a <SenseSpaceProvider>; pass a client explicitly otherwise');
+  }
+
+  const { url, bridge, timeout, enabled = true, ...profileOptions } = options || {};
+  // useLaunchContext falls back to the provider's bridge
+  const launch = useLaunchContext({ url, bridge, timeout });
+  const userId = launch.data?.userId || '';
+  const profile = useUserProfile(client, userId, { ...profileOptions, timeout, enabled: enabled && !!userId });
+
+  return {
+    ...profile,
+    launchContext: launch.data,
+    loading: launch.loading || profile.loading,
+    error: launch.error || profile.error
+  };
+}
+
+function isClient(value: unknown): value is SenseSpaceClient {
+  return !!value && typeof (value as SenseSpaceClient).getUserProfile === 'function';
+}
+
+/**
+ * Simple React Hook for managing SenseSpace client state.
+ * Falls back to the client from SenseSpaceProvider when none is passed.
+ */
+export function useSenseSpaceClient(client?: SenseSpaceClient | null) {
+  const contextClient = useContext(SenseSpaceContext);
+  const resolved = client === undefined ? contextClient : client;
+
+  return {
+    client: resolved,
+    isReady: !!resolved
+  };
+}
+
+/**
+ * Use the given wallet, or one backed by the provider's host bridge
+ */
+function useResolvedWallet(wallet?: SenseSpaceWallet): SenseSpaceWallet {
+  const bridge = useContext(HostBridgeContext);
+  const bridgeWallet = useMemo(() => bridge ? createWallet(bridge) : null, [bridge]);
+  const resolved = wallet || bridgeWallet;
+
+  if (!resolved) {
+    throw new Error('Wallet hooks need a wallet argument or a SenseSpaceProvider with a `bridge`');
+  }
+
+  return resolved;
+}
+
+/**
+ * Shared state handling for wallet prompts
+ */
+function useWalletAction<TRequest, TResult>(
+  wallet: SenseSpaceWallet | undefined,
+  perform: (wallet: SenseSpaceWallet, request: TRequest, options?: HostBridgeRequestOptions) => Promise<APIResponse<TResult>>
+) {
+  const resolved = useResolvedWallet(wallet);
+  const { state, run, reset } = useAsyncAction<TResult>();
+
+  const execute = useCallback(
+    (request: TRequest, options?: HostBridgeRequestOptions) => run(() => perform(resolved, request, options)),
+    [resolved, run]
+  );
+
+  return { ...state, execute, reset };
+}
+
+/**
+ * React Hook for asking the host wallet to sign a message.
+ * A declined prompt surfaces as a 'user_rejected' error.
+ */
+export function useSignMessage(wallet?: SenseSpaceWallet) {
+  const { execute, ...rest } = useWalletAction<SignMessageRequest, SignMessageResult>(
+    wallet,
+    (w, request, options) => w.signMessage(request, options)
+  );
+  return { ...rest, signMessage: execute };
+}
+
+/**
+ * React Hook for asking the host wallet to sign EIP-712 typed data
+ */
+export function useSignTypedData(wallet?: SenseSpaceWallet) {
+  const { execute, ...rest } = useWalletAction<SignTypedDataRequest, SignTypedDataResult>(
+    wallet,
+    (w, request, options) => w.signTypedData(request, options)
+  );
+  return { ...rest, signTypedData: execute };
+}
+
+/**
+ * React Hook for asking the host wallet to submit a transaction
+ */
+export function useSendTransaction(wallet?: SenseSpaceWallet) {
+  const { execute, ...rest } = useWalletAction<TransactionRequest, TransactionResult>(
+    wallet,
+    (w, request, options) => w.sendTransaction(request, options)
+  );
+  return { ...rest, sendTransaction: execute };
+}
+
+/**
+ * React Hook for signing in with the host wallet. Send the resulting
+ * message and signature to your backend for `verifySignIn`.
+ */
+export function useSignIn(wallet?: SenseSpaceWallet) {
+  const { execute, ...rest } = useWalletAction<SignInRequest, SignInResult>(
+    wallet,
+    (w, request, options) => signInWithWallet(w, request, options)
+  );
+  return { ...rest, signIn: execute };
+}
+
+function unsupported(method: string): APIResponse<UserProfile> {
+  return {
+    success: false,
+    message: null,
+    error: new SenseSpaceError({ kind: 'invalid_request', message: `This client does not implement ${method}`, retryable: false })
+  };
+}
+
+/**
+ * React Hook for editing profiles and uploading avatars. On success the client cache
+ * and every useUserProfile showing that user are updated.
+ */
+export function useUpdateUserProfile(client?: SenseSpaceClient): UseUpdateUserProfileReturn {
+  const contextClient = useContext(SenseSpaceContext);
+  const resolved = client || contextClient;
+
+  if (!resolved) {
+    throw new Error('useUpdateUserProfile must be used within a <SenseSpaceProvider>; pass a client explicitly otherwise');
+  }
+
+  const { state, run, reset: resetAction, mountedRef } = useAsyncAction<UserProfile>();
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+
+  const updateUserProfile = useCallback(
+    (userId: string, patch: UserProfileUpdate, options?: UpdateUserProfileOptions) => run(async () => resolved.updateUserProfile
+      ? resolved.updateUserProfile(userId, patch, options)
+      : unsupported('updateUserProfile')),
+    [resolved, run]
+  );
+
+  const uploadAvatar = useCallback((userId: string, file: Blob, options?: UploadAvatarOptions) => {
+    setProgress(null);
+    return run(async () => resolved.uploadAvatar
+      ? resolved.uploadAvatar(userId, file, {
+        ...options,
+        onProgress: next => {
+          if (mountedRef.current) {
+            setProgress(next);
+          }
+          options?.onProgress?.(next);
+        }
+      })
+      : unsupported('uploadAvatar'));
+  }, [resolved, run, mountedRef]);
+
+  const reset = useCallback(() => {
+    resetAction();
+    setProgress(null);
+  }, [resetAction]);
+
+  return { ...state, progress, updateUserProfile, uploadAvatar, reset };
 }
\ No newline at end of file
@@ -2,16 +2,118 @@
 export { createSenseSpaceClient } from './core';
 export { default } from './core';
 
+// Host bridge exports
+export { createHostBridge } from './bridge';
+
+// Wallet exports
+export { createWallet } from './wallet';
+
+// Sign-in with wallet exports
+export { signInWithWallet, createSignInMessage, parseSignInMessage } from './siwe';
+
+// Launch context exports
+export { getLaunchContext, parseLaunchParams, validateLaunchParams } from './launch';
+
+// Error exports
+export { SenseSpaceError, isSenseSpaceError } from './errors';
+export type { SenseSpaceErrorInit } from './errors';
+export { ResponseParseError } from './response';
+
+// Persistent cache storage exports
+export { createIndexedDBStorage, createWebStorage, createMemoryStorage } from './storage';
+
+// Validation exports
+export { validateUserProfile } from './validation';
+
+// Pagination exports
+export { validatePage, getNextPageParam } from './pagination';
+
 // Type exports
 export type {
   SenseSpaceConfig,
   SenseSpaceClient,
+  SenseSpaceSDKClient,
   UserProfile,
+  UserProfileUpdate,
+  UpdateUserProfileOptions,
+  UploadAvatarOptions,
+  UploadProgress,
+  UseUpdateUserProfileReturn,
   APIResponse,
   RequestOptions,
   SDKOptions,
+  HTTPMethod,
+  QueryParams,
+  RequestConfig,
+  ResponseSchema,
+  ValidationIssue,
+  ValidationResult,
+  ValidationMode,
+  ValidationOptions,
+  ResponseBodyType,
+  RetryPolicy,
+  RetryableErrorKind,
+  SenseSpaceErrorKind,
+  AuthProvider,
+  DecodedJWT,
+  TokenInfo,
+  TokenInspectionOptions,
+  TokenExpiryOptions,
+  CacheOptions,
+  PersistOptions,
+  PersistedEntry,
+  StorageAdapter,
+  BatchOptions,
+  UserProfileResult,
+  Middleware,
+  RequestContext,
+  FetchFunction,
+  HostBridge,
+  HostBridgeOptions,
+  HostBridgeRequestOptions,
+  HostContext,
+  HostEventMap,
+  HostMessage,
+  WalletAccount,
+  SenseSpaceWallet,
+  SignMessageRequest,
+  SignMessageResult,
+  SignTypedDataRequest,
+  SignTypedDataResult,
+  TypedData,
+  TypedDataField,
+  TransactionRequest,
+  TransactionResult,
+  AsyncActionState,
+  SignInMessageFields,
+  SignInRequest,
+  SignInResult,
+  LaunchContext,
+  LaunchContextOptions,
+  UseUserProfileOptions,
   UseUserProfileState,
-  UseUserProfileReturn
+  UseUserProfileReturn,
+  UseLaunchContextReturn,
+  UseCurrentUserReturn,
+  UseSuspenseUserProfileReturn,
+  QueryKey,
+  QueryFunction,
+  QueryFunctionContext,
+  QueryState,
+  UseSenseSpaceQueryOptions,
+  UseSenseSpaceQueryReturn,
+  MutationFunction,
+  OptimisticUpdate,
+  UseSenseSpaceMutationOptions,
+  UseSenseSpaceMutationReturn,
+  InfiniteQueryFunction,
+  InfiniteQueryFunctionContext,
+  InfiniteData,
+  UseSenseSpaceInfiniteQueryOptions,
+  UseSenseSpaceInfiniteQueryReturn,
+  Page,
+  PageParam,
+  PaginateConfig
 } from './types';
 
 // Utility exports
@@ -24,3 +126,6 @@ export {
   formatErrorMessage,
   isTokenValid
 } from './utils';
+
+// Token inspection exports
+export { decodeJWT, inspectToken, isTokenExpired, getTokenExpiry, getTimeToExpiry } from './token';
@@ -0,0 +1,58 @@
+/**
+ * JWT and base64url helpers shared by the token and server modules
+ */
+
+/**
+ * Decode a base64url string to bytes
+ */
+export function base64UrlToBytes(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decode a base64url string to UTF-8 text
+ */
+export function base64UrlToText(input: string): string {
+  return new TextDecoder().decode(base64UrlToBytes(input));
+}
+
+export interface JWTParts {
+  header: Record<string, any>;
+  payload: Record<string, any>;
+  signature: Uint8Array;
+  signingInput: string; // "<header>.<payload>", the bytes the signature covers
+}
+
+/**
+ * Split and decode a compact JWT without verifying it. Returns null when malformed.
+ */
+export function splitJWT(token: string): JWTParts | null {
+  const segments = token.trim().split('.');
+  if (segments.length !== 3) {
+    return null;
+  }
+
+  try {
+    const header = JSON.parse(base64UrlToText(segments[0]));
+    const payload = JSON.parse(base64UrlToText(segments[1]));
+    if (!header || typeof header !== 'object' || !payload || typeof payload !== 'object') {
+      return null;
+    }
+
+    return {
+      header,
+      payload,
+      signature: base64UrlToBytes(segments[2]),
+      signingInput: `${segments[0]}.${segments[1]}`
+    };
+  } catch {
+    return null;
+  }
+}
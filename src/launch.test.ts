@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getLaunchContext, parseLaunchParams, validateLaunchParams } from './launch';
+import { createMockHostBridge } from './mock';
+
+describe('parseLaunchParams', () => {
+  it('collects ss_ parameters from query and hash, hash winning', () => {
+    const params = parseLaunchParams('https://app.example.com/?ss_user_id=query&other=1#ss_user_id=hash&ss_theme=dark');
+
+    expect(params.get('ss_user_id')).toBe('hash');
+    expect(params.get('ss_theme')).toBe('dark');
+    expect(params.has('other')).toBe(false);
+  });
+});
+
+describe('validateLaunchParams', () => {
+  it('keeps the raw payload sorted by code unit', () => {
+    const result = validateLaunchParams(new URLSearchParams('ss_user_id=user-1&ss_userId=b&ss_auth_date=100'));
+
+    expect(result.data?.raw).toBe('ss_auth_date=100&ss_userId=b&ss_user_id=user-1');
+  });
+
+  it('rejects bad themes and auth dates', () => {
+    expect(validateLaunchParams(new URLSearchParams('ss_user_id=user-1&ss_theme=blue')).error?.kind).toBe('invalid_request');
+    expect(validateLaunchParams(new URLSearchParams('ss_user_id=user-1&ss_auth_date=soon')).error?.kind).toBe('invalid_request');
+  });
+});
+
+describe('getLaunchContext', () => {
+  it('reads the URL first', async () => {
+    const result = await getLaunchContext({ url: 'https://app.example.com/#ss_user_id=user-1&ss_token=abc' });
+
+    expect(result.data).toMatchObject({ userId: 'user-1', token: 'abc', source: 'url' });
+  });
+
+  it('falls back to the host context', async () => {
+    const bridge = createMockHostBridge({
+      context: { user: { id: 'user-2' }, token: 'abc', startParam: 'ref_42', authDate: 100, signature: 'ff', theme: 'dark' }
+    });
+
+    const result = await getLaunchContext({ url: 'https://app.example.com/', bridge });
+
+    expect(result.data).toMatchObject({ userId: 'user-2', token: 'abc', startParam: 'ref_42', authDate: 100, signature: 'ff', source: 'host' });
+    expect(bridge.calls[0].method).toBe('getContext');
+  });
+
+  it('returns invalid_request for a relative URL', async () => {
+    const result = await getLaunchContext({ url: '/launch?ss_user_id=user-1' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.kind).toBe('invalid_request');
+  });
+});
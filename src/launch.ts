@@ -0,0 +1,135 @@
+/**
+ * Launch context: who opened the mini-app and how
+ */
+import { APIResponse, LaunchContext, LaunchContextOptions, HostContext } from './types';
+import { SenseSpaceError } from './errors';
+import { isBrowser, validateUserId, compareCodeUnits } from './utils';
+
+// Launch parameters are passed by the host as `ss_`-prefixed query or hash parameters
+export const LAUNCH_PARAM_PREFIX = 'ss_';
+
+const THEMES = ['light', 'dark'];
+
+function invalidLaunch(message: string): APIResponse<LaunchContext> {
+  return {
+    success: false,
+    message: null,
+    error: new SenseSpaceError({ kind: 'invalid_request', message, retryable: false })
+  };
+}
+
+/**
+ * Collect launch parameters from a URL's query string and hash. Hash values win,
+ * since hosts prefer the fragment to keep tokens out of server logs.
+ * Throws a TypeError if `url` is not absolute.
+ */
+export function parseLaunchParams(url: string): URLSearchParams {
+  const parsed = new URL(url);
+  const params = new URLSearchParams();
+
+  const collect = (source: URLSearchParams) => {
+    source.forEach((value, key) => {
+      if (key.startsWith(LAUNCH_PARAM_PREFIX)) {
+        params.set(key, value);
+      }
+    });
+  };
+
+  collect(parsed.searchParams);
+  collect(new URLSearchParams(parsed.hash.replace(/^#/, '')));
+  return params;
+}
+
+/**
+ * Validate raw launch parameters and turn them into a typed LaunchContext
+ */
+export function validateLaunchParams(params: URLSearchParams, source: LaunchContext['source'] = 'url'): APIResponse<LaunchContext> {
+  const userId = params.get('ss_user_id');
+  if (!userId || !validateUserId(userId)) {
+    return invalidLaunch('Launch parameters are missing a valid ss_user_id');
+  }
+
+  const theme = params.get('ss_theme');
+  if (theme !== null && !THEMES.includes(theme)) {
+    return invalidLaunch(`Unsupported launch theme "${theme}"`);
+  }
+
+  const authDateParam = params.get('ss_auth_date');
+  const authDate = authDateParam === null ? undefined : Number(authDateParam);
+  if (authDate !== undefined && (!Number.isInteger(authDate) || authDate <= 0)) {
+    return invalidLaunch('Launch parameter ss_auth_date must be a Unix timestamp in seconds');
+  }
+
+  // Keep the exact signed payload so a backend can verify it
+  const raw = new URLSearchParams(Array.from(params.entries()).sort(([a], [b]) => compareCodeUnits(a, b))).toString();
+
+  return {
+    success: true,
+    message: null,
+    data: {
+      userId,
+      token: params.get('ss_token') || undefined,
+      startParam: params.get('ss_start_param') || undefined,
+      platform: params.get('ss_platform') || undefined,
+      theme: (theme as LaunchContext['theme']) || undefined,
+      authDate,
+      signature: params.get('ss_signature') || undefined,
+      raw,
+      source
+    }
+  };
+}
+
+function fromHostContext(context: HostContext | undefined): APIResponse<LaunchContext> {
+  const params = new URLSearchParams();
+  const set = (key: string, value: unknown) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(`${LAUNCH_PARAM_PREFIX}${key}`, String(value));
+    }
+  };
+
+  set('user_id', context?.user?.id);
+  set('token', context?.token);
+  set('start_param', context?.startParam);
+  set('platform', context?.platform);
+  set('theme', context?.theme);
+  set('auth_date', context?.authDate);
+  set('signature', context?.signature);
+
+  return validateLaunchParams(params, 'host');
+}
+
+/**
+ * Resolve the launch context from the page URL, falling back to the host bridge
+ * when the URL carries no launch parameters.
+ */
+export async function getLaunchContext(options: LaunchContextOptions = {}): Promise<APIResponse<LaunchContext>> {
+  const url = options.url ?? (isBrowser() ? window.location.href : undefined);
+
+  if (url) {
+    let params: URLSearchParams;
+    try {
+      params = parseLaunchParams(url);
+    } catch {
+      return invalidLaunch(`Launch URL "${url}" is not an absolute URL`);
+    }
+    if (params.has('ss_user_id')) {
+      return validateLaunchParams(params, 'url');
+    }
+  }
+
+  if (options.bridge?.isAvailable) {
+    const response = await options.bridge.getContext({ timeout: options.timeout, signal: options.signal });
+    return response.success ? fromHostContext(response.data) : { ...response, data: undefined };
+  }
+
+  return {
+    success: false,
+    message: null,
+    error: new SenseSpaceError({
+      kind: 'unavailable',
+      message: 'No launch parameters found in the URL and no host bridge available',
+      retryable: false
+    })
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSenseSpaceClient } from './core';
+import { Middleware } from './types';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function recording(name: string, log: string[], overrides: Partial<Middleware> = {}): Middleware {
+  return {
+    name,
+    onRequest: () => {
+      log.push(`${name}:request`);
+    },
+    onResponse: () => {
+      log.push(`${name}:response`);
+    },
+    onError: () => {
+      log.push(`${name}:error`);
+    },
+    ...overrides
+  };
+}
+
+describe('middleware', () => {
+  it('runs requests in order and responses in reverse order', async () => {
+    const log: string[] = [];
+    const fetch = vi.fn(async () => jsonResponse({ success: true, message: null, data: 1 }));
+    const client = createSenseSpaceClient({
+      token: 't',
+      fetch,
+      middleware: [recording('a', log), recording('b', log)]
+    });
+
+    await client.request('GET', '/api/thing');
+
+    expect(log).toEqual(['a:request', 'b:request', 'b:response', 'a:response']);
+  });
+
+  it('lets onRequest rewrite the request', async () => {
+    const fetch = vi.fn(async (_url: string, _init?: RequestInit) => jsonResponse({ success: true, message: null }));
+    const client = createSenseSpaceClient({
+      token: 't',
+      fetch,
+      middleware: [{ onRequest: context => ({ ...context, headers: { ...context.headers, 'X-Trace': 'abc' } }) }]
+    });
+
+    await client.request('GET', '/api/thing');
+
+    expect(new Headers(fetch.mock.calls[0][1]?.headers).get('X-Trace')).toBe('abc');
+  });
+
+  it('lets onError recover from a failure', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ message: 'gone' }, 404));
+    const client = createSenseSpaceClient({
+      token: 't',
+      fetch,
+      retry: false,
+      middleware: [{ onError: error => (error.kind === 'not_found' ? { success: true, message: null, data: 'fallback' } : undefined) }]
+    });
+
+    expect((await client.request('GET', '/api/thing')).data).toBe('fallback');
+  });
+
+  it('reports a throwing middleware as a failed response', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ success: true, message: null }));
+    const client = createSenseSpaceClient({
+      token: 't',
+      fetch,
+      middleware: [{ name: 'broken', onRequest: () => { throw new Error('boom'); } }]
+    });
+
+    const response = await client.request('GET', '/api/thing');
+
+    expect(response.success).toBe(false);
+    expect(response.error?.message).toContain('"broken"');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('only unwinds middleware the request reached when onRequest short-circuits', async () => {
+    const log: string[] = [];
+    const fetch = vi.fn(async () => jsonResponse({ success: true, message: null }));
+    const client = createSenseSpaceClient({
+      token: 't',
+      fetch,
+      middleware: [
+        recording('a', log),
+        recording('cache', log, {
+          onRequest: () => {
+            log.push('cache:request');
+            return { success: true, message: null, data: 'cached' };
+          }
+        }),
+        recording('c', log)
+      ]
+    });
+
+    expect((await client.request('GET', '/api/thing')).data).toBe('cached');
+    expect(log).toEqual(['a:request', 'cache:request', 'cache:response', 'a:response']);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('passes token failures to onError', async () => {
+    const log: string[] = [];
+    const fetch = vi.fn(async () => jsonResponse({ success: true, message: null }));
+    const client = createSenseSpaceClient({
+      auth: { getToken: () => { throw new Error('signed out'); } },
+      fetch,
+      retry: false,
+      middleware: [recording('a', log), recording('b', log, {
+        onError: error => {
+          log.push(`b:error:${error.kind}`);
+        }
+      })]
+    });
+
+    const response = await client.request('GET', '/api/thing');
+
+    expect(response.error?.kind).toBe('unauthorized');
+    expect(log).toEqual(['b:error:unauthorized', 'a:error']);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
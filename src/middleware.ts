@@ -0,0 +1,87 @@
+/**
+ * Request/response middleware pipeline for SenseSpace SDK
+ */
+import { APIResponse, Middleware, RequestContext } from './types';
+import { SenseSpaceError } from './errors';
+import { formatErrorMessage } from './utils';
+
+function isAPIResponse(value: unknown): value is APIResponse<any> {
+  return !!value && typeof value === 'object' && typeof (value as APIResponse).success === 'boolean';
+}
+
+function middlewareFailure<T>(middleware: Middleware, phase: string, error: unknown): APIResponse<T> {
+  return {
+    success: false,
+    message: null,
+    error: new SenseSpaceError({
+      kind: 'unknown',
+      message: `Middleware ${middleware.name ? `"${middleware.name}" ` : ''}failed in ${phase} phase: ${formatErrorMessage(error)}`,
+      retryable: false,
+      cause: error
+    })
+  };
+}
+
+/**
+ * Run request-phase middleware in order. Each step may return an updated context,
+ * or an APIResponse to short-circuit the request without hitting the network.
+ * `ran` is how many middleware the request reached, i.e. which ones unwind in the
+ * response phase: a step that short-circuits sees its own response, one that throws does not.
+ */
+export async function runRequestPhase<T>(
+  middleware: Middleware[],
+  context: RequestContext
+): Promise<{ context: RequestContext; response?: APIResponse<T>; ran: number }> {
+  let current = context;
+
+  for (let i = 0; i < middleware.length; i++) {
+    const step = middleware[i];
+    if (!step.onRequest) {
+      continue;
+    }
+
+    try {
+      const result = await step.onRequest(current);
+
+      if (isAPIResponse(result)) {
+        return { context: current, response: result as APIResponse<T>, ran: i + 1 };
+      }
+      if (result) {
+        current = result;
+      }
+    } catch (error) {
+      return { context: current, response: middlewareFailure<T>(step, 'request', error), ran: i };
+    }
+  }
+
+  return { context: current, ran: middleware.length };
+}
+
+/**
+ * Run response- and error-phase middleware in reverse order, so the first
+ * middleware sees the response last. `onResponse` handles successful responses,
+ * `onError` handles failures and may recover by returning a new response.
+ */
+export async function runResponsePhase<T>(
+  middleware: Middleware[],
+  response: APIResponse<T>,
+  context: RequestContext
+): Promise<APIResponse<T>> {
+  let current = response;
+
+  for (let i = middleware.length - 1; i >= 0; i--) {
+    const step = middleware[i];
+
+    try {
+      if (current.success && step.onResponse) {
+        current = (await step.onResponse(current, context)) || current;
+      } else if (!current.success && current.error && step.onError) {
+        current = (await step.onError(current.error, context)) || current;
+      }
+    } catch (error) {
+      current = middlewareFailure<T>(step, current.success ? 'response' : 'error', error);
+    }
+  }
+
+  return current;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createMockClient, createMockHostBridge } from './mock';
+import { createWallet } from './wallet';
+
+describe('createMockClient', () => {
+  it('serves fixture profiles and routes', async () => {
+    const client = createMockClient({
+      profiles: [{ id: 'user-1' }],
+      routes: { 'GET /api/settings': () => ({ theme: 'dark' }) }
+    });
+
+    expect((await client.getUserProfile('user-1')).data?.id).toBe('user-1');
+    expect((await client.getUserProfile('missing')).error?.kind).toBe('not_found');
+    expect((await client.request('GET', '/api/settings')).data).toEqual({ theme: 'dark' });
+  });
+
+  it('fails scripted calls, then recovers', async () => {
+    const client = createMockClient({ profiles: [{ id: 'user-1' }] });
+    client.failNext('timeout', { times: 2, method: 'getUserProfile' });
+
+    expect((await client.getUserProfile('user-1')).error?.kind).toBe('timeout');
+    expect((await client.getUserProfile('user-1')).error?.kind).toBe('timeout');
+    expect((await client.getUserProfile('user-1')).success).toBe(true);
+  });
+
+  it('records calls for assertions', async () => {
+    const client = createMockClient({ profiles: [{ id: 'user-1' }] });
+    await client.getUserProfile('user-1');
+
+    expect(() => client.assertCalled('getUserProfile', { with: ['user-1'], times: 1 })).not.toThrow();
+    expect(() => client.assertCalled('request')).toThrow();
+    expect(() => client.assertNotCalled('request')).not.toThrow();
+  });
+
+  it('checks expectedVersion on profile updates', async () => {
+    const client = createMockClient({ profiles: [{ id: 'user-1', version: 1 }] });
+
+    expect((await client.updateUserProfile('user-1', { bio: 'a' }, { expectedVersion: 1 })).data?.version).toBe(2);
+    expect((await client.updateUserProfile('user-1', { bio: 'b' }, { expectedVersion: 1 })).error?.kind).toBe('conflict');
+  });
+
+  it('pages through a route', async () => {
+    const client = createMockClient({
+      routes: {
+        'GET /api/list': config => ({ items: [config.query?.offset ?? 0], offset: config.query?.offset ?? 0, total: 3 })
+      }
+    });
+
+    const items: unknown[] = [];
+    for await (const response of client.paginate('/api/list')) {
+      items.push(...response.data!.items);
+    }
+
+    expect(items).toEqual([0, 1, 2]);
+  });
+});
+
+describe('createMockHostBridge', () => {
+  it('turns a thrown { code, message } into a host error', async () => {
+    const bridge = createMockHostBridge({
+      handlers: {
+        wallet_signMessage: () => {
+          throw { code: 4001, message: 'User rejected' };
+        }
+      }
+    });
+
+    const response = await createWallet(bridge).signMessage({ message: 'hi' });
+
+    expect(response.error?.kind).toBe('user_rejected');
+    expect(bridge.calls[0].method).toBe('wallet_signMessage');
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * In-memory fakes of the SDK client and host bridge for unit tests.
+ * Responses are deterministic and nothing touches the network or window.
+ */
+import {
+  APIResponse,
+  HTTPMethod,
+  HostBridgeRequestOptions,
+  HostContext,
+  HostEventMap,
+  MockBridgeHandler,
+  MockCall,
+  MockClientMethod,
+  MockClientOptions,
+  MockFailureOptions,
+  MockHostBridge,
+  MockHostBridgeOptions,
+  MockProfile,
+  MockRequestHandler,
+  MockSenseSpaceClient,
+  Page,
+  PaginateConfig,
+  RequestConfig,
+  RequestOptions,
+  SenseSpaceErrorKind,
+  UpdateUserProfileOptions,
+  UploadAvatarOptions,
+  UserProfile,
+  UserProfileResult,
+  UserProfileUpdate
+} from './types';
+import { SenseSpaceError, isSenseSpaceError } from './errors';
+import { cancelledResponse } from './abort';
+import { sleep } from './retry';
+import { validateResponse } from './validation';
+import { paginate } from './pagination';
+
+interface ScriptedFailure {
+  error: SenseSpaceError;
+  remaining: number;
+  method?: MockFailureOptions['method'];
+}
+
+/**
+ * Fill in the required UserProfile fields with fixed values, so fixtures only state what a test cares about
+ */
+export function createMockProfile(overrides: MockProfile): UserProfile {
+  return {
+    email: null,
+    authType: 'wallet',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    walletAddress: '0x0000000000000000000000000000000000000000',
+    ...overrides
+  };
+}
+
+function isAPIResponse(value: unknown): value is APIResponse<any> {
+  return !!value && typeof value === 'object' && typeof (value as APIResponse).success === 'boolean';
+}
+
+function failure<T>(error: SenseSpaceError): APIResponse<T> {
+  return { success: false, message: null, error };
+}
+
+function routeKey(method: HTTPMethod, path: string): string {
+  return `${method} ${path}`;
+}
+
+/**
+ * Structural equality for plain data, used by call assertions
+ */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length &&
+    keysA.every(key => isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+function formatArgs(args: unknown[]): string {
+  return args.map(arg => {
+    try {
+      return JSON.stringify(arg) ?? String(arg);
+    } catch {
+      return String(arg);
+    }
+  }).join(', ');
+}
+
+/**
+ * Mock SDK client implementation
+ */
+class MockClient implements MockSenseSpaceClient {
+  readonly calls: MockCall[] = [];
+  private profiles = new Map<string, UserProfile>();
+  private routes = new Map<string, MockRequestHandler>();
+  private failures: ScriptedFailure[] = [];
+  private listeners = new Set<(userId: string, profile: UserProfile) => void>();
+  private latency: number;
+
+  constructor(options: MockClientOptions = {}) {
+    this.latency = options.latency ?? 0;
+    (options.profiles || []).forEach(profile => this.setProfile(profile));
+    Object.entries(options.routes || {}).forEach(([key, handler]) => this.routes.set(key, handler));
+  }
+
+  async getUserProfile(userId: string, options?: RequestOptions): Promise<APIResponse<UserProfile>> {
+    this.record('getUserProfile', [userId, options]);
+    return this.loadProfile(userId, options);
+  }
+
+  async getUserProfiles(userIds: string[], options?: RequestOptions): Promise<Map<string, UserProfileResult>> {
+    this.record('getUserProfiles', [userIds, options]);
+    const ids = Array.from(new Set(userIds.filter(Boolean)));
+    const responses = await Promise.all(ids.map(id => this.loadProfile(id, options)));
+
+    return new Map(ids.map((id, index): [string, UserProfileResult] => {
+      const response = responses[index];
+      if (response.success && response.data) {
+        return [id, { status: 'found', profile: response.data }];
+      }
+      if (response.error?.kind === 'not_found') {
+        return [id, { status: 'not_found' }];
+      }
+      return [id, { status: 'failed', error: response.error! }];
+    }));
+  }
+
+  async request<T = any>(method: HTTPMethod, path: string, config?: RequestConfig<T>): Promise<APIResponse<T>> {
+    this.record('request', [method, path, config]);
+
+    const response = await this.routeRequest<T>(method, path, config || {});
+    return config?.schema
+      ? validateResponse(response, config.schema, { mode: 'strict' }, { method, path })
+      : response;
+  }
+
+  /**
+   * Pages come from the `GET path` route, which sees `cursor`/`offset` and `limit` in config.query.
+   * Each page is recorded as a 'request' call.
+   */
+  paginate<T = any>(path: string, config?: PaginateConfig<T>): AsyncIterableIterator<APIResponse<Page<T>>> {
+    return paginate<T>((method, pagePath, pageConfig) => this.request(method, pagePath, pageConfig), path, config);
+  }
+
+  private async routeRequest<T>(method: HTTPMethod, path: string, config: RequestConfig<T>): Promise<APIResponse<T>> {
+    const scripted = await this.respond<T>('request', config.signal);
+    if (scripted) {
+      return scripted;
+    }
+
+    const handler = this.routes.get(routeKey(method, path));
+    if (!handler) {
+      return failure(new SenseSpaceError({
+        kind: 'not_found',
+        status: 404,
+        message: `No mock route for ${routeKey(method, path)}`
+      }));
+    }
+
+    try {
+      const result = await handler(config, { method, path });
+      return isAPIResponse(result) ? result : { success: true, message: null, data: result as T };
+    } catch (error) {
+      return failure(isSenseSpaceError(error)
+        ? error
+        : new SenseSpaceError({ kind: 'unknown', message: error instanceof Error ? error.message : 'Mock route failed', cause: error }));
+    }
+  }
+
+  async updateUserProfile(
+    userId: string,
+    patch: UserProfileUpdate,
+    options?: UpdateUserProfileOptions
+  ): Promise<APIResponse<UserProfile>> {
+    this.record('updateUserProfile', [userId, patch, options]);
+
+    const scripted = await this.respond<UserProfile>('updateUserProfile', options?.signal);
+    if (scripted) {
+      return scripted;
+    }
+
+    const profile = this.profiles.get(userId);
+    if (!profile) {
+      return failure(new SenseSpaceError({ kind: 'not_found', status: 404, message: `User ${userId} not found` }));
+    }
+    // Fixtures with a `version` field get optimistic concurrency checks
+    const expected = options?.expectedVersion;
+    if (expected !== undefined && profile.version !== undefined && String(profile.version) !== String(expected)) {
+      return failure(new SenseSpaceError({ kind: 'conflict', status: 412, message: 'Profile was changed by another request' }));
+    }
+
+    return this.commitProfile(userId, {
+      ...profile,
+      ...patch,
+      ...(typeof profile.version === 'number' ? { version: profile.version + 1 } : {})
+    });
+  }
+
+  async uploadAvatar(userId: string, file: Blob, options?: UploadAvatarOptions): Promise<APIResponse<UserProfile>> {
+    this.record('uploadAvatar', [userId, file, options]);
+
+    const scripted = await this.respond<UserProfile>('uploadAvatar', options?.signal);
+    if (scripted) {
+      return scripted;
+    }
+
+    const profile = this.profiles.get(userId);
+    if (!profile) {
+      return failure(new SenseSpaceError({ kind: 'not_found', status: 404, message: `User ${userId} not found` }));
+    }
+
+    options?.onProgress?.({ loaded: file.size, total: file.size, percent: 100 });
+    return this.commitProfile(userId, { ...profile, avatarUrl: `https://mock.sensespace.xyz/avatars/${userId}` });
+  }
+
+  onProfileUpdated(listener: (userId: string, profile: UserProfile) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  peekUserProfile(): UserProfile | undefined {
+    // The mock keeps no response cache, so every read goes through getUserProfile
+    return undefined;
+  }
+
+  invalidateUserProfile(userId: string): void {
+    this.record('invalidateUserProfile', [userId]);
+  }
+
+  clearCache(): void {
+    this.record('clearCache', []);
+  }
+
+  setProfile(profile: MockProfile): void {
+    this.profiles.set(profile.id, createMockProfile(profile));
+  }
+
+  private commitProfile(userId: string, profile: UserProfile): APIResponse<UserProfile> {
+    this.profiles.set(userId, profile);
+    this.listeners.forEach(listener => listener(userId, { ...profile }));
+    return { success: true, message: null, data: { ...profile } };
+  }
+
+  removeProfile(userId: string): void {
+    this.profiles.delete(userId);
+  }
+
+  route(method: HTTPMethod, path: string, handler: MockRequestHandler): void {
+    this.routes.set(routeKey(method, path), handler);
+  }
+
+  failNext(error: SenseSpaceError | SenseSpaceErrorKind, options: MockFailureOptions = {}): void {
+    this.failures.push({
+      error: typeof error === 'string' ? new SenseSpaceError({ kind: error, message: `Mock ${error} error` }) : error,
+      remaining: options.times ?? 1,
+      method: options.method
+    });
+  }
+
+  setLatency(latency: number): void {
+    this.latency = latency;
+  }
+
+  callsTo(method: MockClientMethod): MockCall[] {
+    return this.calls.filter(call => call.method === method);
+  }
+
+  assertCalled(method: MockClientMethod, expected: { times?: number; with?: unknown[] } = {}): void {
+    let calls = this.callsTo(method);
+
+    if (expected.with) {
+      const args = expected.with;
+      calls = calls.filter(call => args.every((arg, index) => isDeepEqual(call.args[index], arg)));
+      if (calls.length === 0 && expected.times !== 0) {
+        const seen = this.callsTo(method).map(call => `  (${formatArgs(call.args)})`).join('\n') || '  (none)';
+        throw new Error(`Expected ${method} to be called with (${formatArgs(args)}), but got:\n${seen}`);
+      }
+    }
+
+    if (expected.times !== undefined ? calls.length !== expected.times : calls.length === 0) {
+      throw new Error(`Expected ${method} to be called ${expected.times ?? 'at least 1'} time(s), but it was called ${calls.length} time(s)`);
+    }
+  }
+
+  assertNotCalled(method: MockClientMethod): void {
+    this.assertCalled(method, { times: 0 });
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+    this.failures = [];
+  }
+
+  private record(method: MockClientMethod, args: unknown[]): void {
+    // Drop trailing undefined options so assertions don't have to spell them out
+    while (args.length && args[args.length - 1] === undefined) {
+      args.pop();
+    }
+    this.calls.push({ method, args });
+  }
+
+  private async loadProfile(userId: string, options?: RequestOptions): Promise<APIResponse<UserProfile>> {
+    const scripted = await this.respond<UserProfile>('getUserProfile', options?.signal);
+    if (scripted) {
+      return scripted;
+    }
+
+    const profile = this.profiles.get(userId);
+    if (!profile) {
+      return failure(new SenseSpaceError({ kind: 'not_found', status: 404, message: `User ${userId} not found` }));
+    }
+    return { success: true, message: null, data: { ...profile } };
+  }
+
+  /**
+   * Apply latency and cancellation, then consume a scripted failure if one matches
+   */
+  private async respond<T>(method: NonNullable<MockFailureOptions['method']>, signal?: AbortSignal): Promise<APIResponse<T> | null> {
+    if (this.latency > 0) {
+      await sleep(this.latency, signal);
+    }
+    if (signal?.aborted) {
+      return cancelledResponse<T>(signal.reason);
+    }
+
+    const scripted = this.failures.find(entry => !entry.method || entry.method === method);
+    if (!scripted) {
+      return null;
+    }
+    if (--scripted.remaining <= 0) {
+      this.failures.splice(this.failures.indexOf(scripted), 1);
+    }
+    return failure(scripted.error);
+  }
+}
+
+/**
+ * Mock host bridge implementation
+ */
+class MockBridge implements MockHostBridge {
+  readonly calls: Array<{ method: string; params?: unknown }> = [];
+  private handlers = new Map<string, MockBridgeHandler>();
+  private listeners = new Map<string, Set<(data: any) => void>>();
+  private context: HostContext;
+  private available: boolean;
+  private latency: number;
+
+  constructor(options: MockHostBridgeOptions = {}) {
+    this.context = options.context || {};
+    this.available = options.available ?? true;
+    this.latency = options.latency ?? 0;
+    Object.entries(options.handlers || {}).forEach(([method, handler]) => this.handlers.set(method, handler));
+  }
+
+  get isAvailable(): boolean {
+    return this.available;
+  }
+
+  async request<T = any>(method: string, params?: unknown, options: HostBridgeRequestOptions = {}): Promise<APIResponse<T>> {
+    this.calls.push(params === undefined ? { method } : { method, params });
+
+    if (!this.available) {
+      return failure(new SenseSpaceError({ kind: 'unavailable', message: 'SenseSpace host is not available', retryable: false }));
+    }
+    if (this.latency > 0) {
+      await sleep(this.latency, options.signal);
+    }
+    if (options.signal?.aborted) {
+      return cancelledResponse<T>(options.signal.reason);
+    }
+
+    const handler = this.handlers.get(method) || (method === 'getContext' ? () => this.context : undefined);
+    if (!handler) {
+      return failure(new SenseSpaceError({ kind: 'host', code: 'method_not_found', message: `No mock handler for "${method}"` }));
+    }
+
+    try {
+      return { success: true, message: null, data: (await handler(params)) as T };
+    } catch (error) {
+      if (isSenseSpaceError(error)) {
+        return failure(error);
+      }
+      // Thrown values play the part of the host's `{ code, message }` error reply
+      const reply = (error || {}) as { code?: string | number; message?: string };
+      return failure(new SenseSpaceError({
+        kind: 'host',
+        message: reply.message || `Host request "${method}" failed`,
+        code: reply.code != null ? String(reply.code) : undefined,
+        cause: error
+      }));
+    }
+  }
+
+  getContext(options?: HostBridgeRequestOptions): Promise<APIResponse<HostContext>> {
+    return this.request<HostContext>('getContext', undefined, options);
+  }
+
+  on<K extends keyof HostEventMap>(event: K, handler: (data: HostEventMap[K]) => void): () => void;
+  on(event: string, handler: (data: any) => void): () => void;
+  on(event: string, handler: (data: any) => void): () => void {
+    let handlers = this.listeners.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(event, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      handlers!.delete(handler);
+    };
+  }
+
+  emit<K extends keyof HostEventMap>(event: K, data: HostEventMap[K]): void;
+  emit(event: string, data?: unknown): void;
+  emit(event: string, data?: unknown): void {
+    this.listeners.get(event)?.forEach(handler => handler(data));
+  }
+
+  handle(method: string, handler: MockBridgeHandler): void {
+    this.handlers.set(method, handler);
+  }
+
+  setContext(context: HostContext): void {
+    this.context = context;
+    this.emit('contextChanged', context);
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+  }
+
+  destroy(): void {
+    this.available = false;
+    this.listeners.clear();
+  }
+}
+
+/**
+ * Create a mock client with fixture profiles, scripted failures and call recording
+ */
+export function createMockClient(options?: MockClientOptions): MockSenseSpaceClient {
+  return new MockClient(options);
+}
+
+/**
+ * Create a fake host bridge that answers requests from handlers instead of postMessage
+ */
+export function createMockHostBridge(options?: MockHostBridgeOptions): MockHostBridge {
+  return new MockBridge(options);
+}
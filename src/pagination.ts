@@ -0,0 +1,81 @@
+/**
+ * Page shape checks, next-page resolution and page-by-page iteration of list endpoints
+ */
+import { APIResponse, HTTPMethod, Page, PageParam, PaginateConfig, RequestConfig, ValidationIssue, ValidationResult } from './types';
+
+const OPTIONAL_PAGE_FIELDS: [field: keyof Page<unknown>, expected: string, check: (value: unknown) => boolean][] = [
+  ['nextCursor', 'a string or null', value => value === null || typeof value === 'string'],
+  ['offset', 'a non-negative number', value => typeof value === 'number' && value >= 0],
+  ['limit', 'a positive number', value => typeof value === 'number' && value > 0],
+  ['total', 'a non-negative number', value => typeof value === 'number' && value >= 0],
+  ['hasMore', 'a boolean', value => typeof value === 'boolean']
+];
+
+/**
+ * Built-in check of the Page shape. Items are not inspected.
+ */
+export function validatePage<T = unknown>(data: unknown): ValidationResult<Page<T>> {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    return { success: false, issues: [{ path: '', message: 'Expected a page object' }] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const issues: ValidationIssue[] = Array.isArray(record.items)
+    ? []
+    : [{ path: 'items', message: 'Expected an array' }];
+
+  OPTIONAL_PAGE_FIELDS.forEach(([field, expected, check]) => {
+    if (record[field] !== undefined && !check(record[field])) {
+      issues.push({ path: field, message: `Expected ${expected}` });
+    }
+  });
+
+  return issues.length ? { success: false, issues } : { success: true, data: data as Page<T> };
+}
+
+/**
+ * Parameters for the page after `page`, or null when it is the last one
+ */
+export function getNextPageParam<T>(page: Page<T>): PageParam | null {
+  if (page.nextCursor !== undefined || page.offset === undefined) {
+    return page.nextCursor && page.hasMore !== false ? { cursor: page.nextCursor } : null;
+  }
+
+  const offset = page.offset + page.items.length;
+  const exhausted = page.hasMore === false
+    || page.items.length === 0
+    || (page.total !== undefined && offset >= page.total)
+    || (page.hasMore === undefined && page.total === undefined && page.limit !== undefined && page.items.length < page.limit);
+  return exhausted ? null : { offset };
+}
+
+/**
+ * Request pages of `path` until the last one, a failure, or `maxPages`
+ */
+export async function* paginate<T>(
+  request: (method: HTTPMethod, path: string, config: RequestConfig<Page<T>>) => Promise<APIResponse<Page<T>>>,
+  path: string,
+  config: PaginateConfig<T> = {}
+): AsyncIterableIterator<APIResponse<Page<T>>> {
+  const { query, limit, maxPages = Infinity, schema = validatePage, ...options } = config;
+  let pageParam: PageParam | null = null;
+
+  for (let count = 0; count < maxPages; count++) {
+    const response = await request('GET', path, {
+      ...options,
+      query: { ...query, ...pageParam, limit },
+      schema
+    });
+    yield response;
+
+    if (!response.success || !response.data) {
+      return;
+    }
+    const next = getNextPageParam(response.data);
+    // A server repeating a cursor would otherwise loop forever
+    if (!next || (next.cursor !== undefined && next.cursor === pageParam?.cursor)) {
+      return;
+    }
+    pageParam = next;
+  }
+}
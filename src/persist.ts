@@ -0,0 +1,127 @@
+/**
+ * Persistent layer behind the response cache: versioned entries with a maximum age,
+ * written best-effort so storage failures never fail a request
+ */
+import { APIResponse, PersistOptions, StorageAdapter } from './types';
+import { createAutoStorage, createIndexedDBStorage, createWebStorage, hasWebStorage, isQuotaExceededError } from './storage';
+
+const DEFAULT_PERSIST_OPTIONS = {
+  namespace: 'sensespace',
+  version: 1,
+  maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+  serveStale: false,
+  readTimeout: 1000
+};
+
+function resolveStorage(storage: PersistOptions['storage'], namespace: string): StorageAdapter | null {
+  if (storage && typeof storage === 'object') {
+    return storage;
+  }
+  if (storage === 'indexeddb') {
+    return createIndexedDBStorage(namespace);
+  }
+  if (storage === 'localstorage') {
+    return hasWebStorage() ? createWebStorage(globalThis.localStorage, namespace) : null;
+  }
+  return createAutoStorage(namespace);
+}
+
+export class PersistentCache {
+  readonly serveStale: boolean;
+  private storage: StorageAdapter;
+  private version: number;
+  private maxAge: number;
+  private readTimeout: number;
+
+  private constructor(storage: StorageAdapter, options: typeof DEFAULT_PERSIST_OPTIONS) {
+    this.storage = storage;
+    this.version = options.version;
+    this.maxAge = options.maxAge;
+    this.readTimeout = options.readTimeout;
+    this.serveStale = options.serveStale;
+  }
+
+  /**
+   * Create the persistent layer, or null when persistence is off or no storage is available
+   */
+  static create(persist?: PersistOptions | boolean): PersistentCache | null {
+    if (!persist) {
+      return null;
+    }
+
+    const options = { ...DEFAULT_PERSIST_OPTIONS, ...(persist === true ? {} : persist) };
+    const storage = resolveStorage(persist === true ? undefined : persist.storage, options.namespace);
+    return storage ? new PersistentCache(storage, options) : null;
+  }
+
+  /**
+   * Read a persisted response. Entries from another version or past maxAge are removed.
+   * A read that takes longer than readTimeout counts as a miss.
+   */
+  async get<T>(key: string): Promise<APIResponse<T> | undefined> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<undefined>(resolve => {
+      timeoutId = setTimeout(() => resolve(undefined), this.readTimeout);
+    });
+
+    try {
+      return await Promise.race([this.read<T>(key), timedOut]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async read<T>(key: string): Promise<APIResponse<T> | undefined> {
+    try {
+      const entry = await this.storage.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.version !== this.version || Date.now() - entry.storedAt > this.maxAge) {
+        await this.storage.delete(key);
+        return undefined;
+      }
+      return { success: true, message: null, data: entry.value as T };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Persist response data. When storage is full, the oldest half of the
+   * entries is evicted and the write is retried once.
+   */
+  async set<T>(key: string, response: APIResponse<T>): Promise<void> {
+    const entry = { version: this.version, storedAt: Date.now(), value: response.data };
+
+    try {
+      await this.storage.set(key, entry);
+    } catch (error) {
+      if (!isQuotaExceededError(error)) {
+        return;
+      }
+      try {
+        await this.evictOldest();
+        await this.storage.set(key, entry);
+      } catch {
+        // Still full; this entry simply isn't persisted
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.delete(key).catch(() => undefined);
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear().catch(() => undefined);
+  }
+
+  private async evictOldest(): Promise<void> {
+    const keys = await this.storage.keys();
+    const entries = await Promise.all(keys.map(async key => ({ key, entry: await this.storage.get(key) })));
+
+    entries.sort((a, b) => (a.entry?.storedAt ?? 0) - (b.entry?.storedAt ?? 0));
+    await Promise.all(entries.slice(0, Math.ceil(entries.length / 2)).map(({ key }) => this.storage.delete(key)));
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Keyed store behind useSenseSpaceQuery and useSenseSpaceMutation: one entry per
+ * query key, shared by every component using that key with the same client
+ */
+import { APIResponse, QueryFunction, QueryKey, QueryState, SenseSpaceClient } from './types';
+import { SenseSpaceError, toSenseSpaceError } from './errors';
+
+export const DEFAULT_CACHE_TIME = 5 * 60 * 1000; // 5 minutes
+
+const INITIAL_QUERY_STATE: QueryState<any> = {
+  data: null,
+  error: null,
+  isFetching: false,
+  updatedAt: 0
+};
+
+export interface QueryObserver {
+  notify: () => void;
+  queryFn?: QueryFunction<any>; // Set by enabled queries, used to refetch after invalidation
+  cacheTime: number;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState<any>;
+  observers: Set<QueryObserver>;
+  controller: AbortController | null;
+  promise: Promise<void> | null;
+  invalidated: boolean;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Hash a value with object keys sorted, so { a, b } and { b, a } name the same query
+function hashValue(value: unknown): string {
+  return JSON.stringify(value, (_, item) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      return Object.keys(item).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = item[key];
+        return sorted;
+      }, {});
+    }
+    return typeof item === 'bigint' ? item.toString() : item;
+  }) ?? 'undefined';
+}
+
+export function hashQueryKey(key: QueryKey): string {
+  return hashValue(key);
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.length <= key.length && prefix.every((part, index) => hashValue(part) === hashValue(key[index]));
+}
+
+export class QueryCache {
+  private client: SenseSpaceClient;
+  private entries = new Map<string, QueryEntry>();
+
+  constructor(client: SenseSpaceClient) {
+    this.client = client;
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return this.entries.get(hashQueryKey(key))?.state ?? INITIAL_QUERY_STATE;
+  }
+
+  /**
+   * Register a component using `key`. Once the last observer leaves, the entry is
+   * kept for `cacheTime` and then dropped.
+   */
+  subscribe(key: QueryKey, observer: QueryObserver): () => void {
+    const entry = this.ensure(key);
+    entry.observers.add(observer);
+    this.cancelGC(entry);
+
+    return () => {
+      entry.observers.delete(observer);
+      if (entry.observers.size === 0) {
+        this.scheduleGC(entry, observer.cacheTime);
+      }
+    };
+  }
+
+  /**
+   * Run `queryFn` for `key` unless its data is younger than `staleTime`. Concurrent
+   * fetches share one request; `force` replaces a request in flight instead.
+   */
+  fetch<T>(
+    key: QueryKey,
+    queryFn: QueryFunction<T>,
+    { force = false, staleTime = 0 }: { force?: boolean; staleTime?: number } = {}
+  ): Promise<void> {
+    const entry = this.ensure(key);
+    const { state } = entry;
+
+    if (!force) {
+      if (entry.promise) {
+        return entry.promise;
+      }
+      if (state.updatedAt > 0 && Date.now() - state.updatedAt < staleTime) {
+        return Promise.resolve();
+      }
+    }
+
+    entry.controller?.abort();
+    const controller = new AbortController();
+    entry.controller = controller;
+    // Data that was invalidated or explicitly refetched must not come from the client's cache
+    const cache = force || entry.invalidated ? 'no-cache' : 'default';
+
+    this.update(entry, { isFetching: true });
+
+    const promise = Promise.resolve()
+      .then(() => queryFn({ client: this.client, queryKey: entry.key, signal: controller.signal, cache }))
+      .catch((error): APIResponse<T> => ({ success: false, message: null, error: toSenseSpaceError(error) }))
+      .then(response => {
+        // A newer fetch or a cancellation took over; leave the state to it
+        if (entry.controller !== controller) {
+          return;
+        }
+        entry.controller = null;
+        entry.promise = null;
+
+        if (response.success) {
+          entry.invalidated = false;
+          this.update(entry, { data: response.data ?? null, error: null, isFetching: false, updatedAt: Date.now() });
+        } else if (response.error?.kind === 'cancelled') {
+          this.update(entry, { isFetching: false });
+        } else {
+          this.update(entry, {
+            error: response.error || new SenseSpaceError({ kind: 'unknown', message: response.message || 'Query failed' }),
+            isFetching: false
+          });
+        }
+      });
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  /**
+   * Replace the data for `key`, as if it had just been fetched
+   */
+  setData<T>(key: QueryKey, updater: T | ((current: T | null) => T)): void {
+    const entry = this.ensure(key);
+    const data = typeof updater === 'function'
+      ? (updater as (current: T | null) => T)(entry.state.data)
+      : updater;
+
+    this.update(entry, { data, error: null, updatedAt: Date.now() });
+    if (entry.observers.size === 0) {
+      this.scheduleGC(entry, DEFAULT_CACHE_TIME);
+    }
+  }
+
+  /**
+   * Put back a state taken with getState, e.g. to roll back an optimistic update
+   */
+  restore<T>(key: QueryKey, state: QueryState<T>): void {
+    const entry = this.entries.get(hashQueryKey(key));
+    if (entry) {
+      this.update(entry, { data: state.data, error: state.error, updatedAt: state.updatedAt });
+    }
+  }
+
+  /**
+   * Abort the fetch in flight for `key`, so it cannot overwrite data set meanwhile
+   */
+  cancel(key: QueryKey): void {
+    const entry = this.entries.get(hashQueryKey(key));
+    if (entry?.controller) {
+      entry.controller.abort();
+      entry.controller = null;
+      entry.promise = null;
+      this.update(entry, { isFetching: false });
+    }
+  }
+
+  /**
+   * Mark every query starting with `prefix` (all queries without one) as stale,
+   * and refetch those that are in use
+   */
+  invalidate(prefix: QueryKey = []): Promise<void> {
+    const refetches: Promise<void>[] = [];
+
+    this.entries.forEach(entry => {
+      if (!matchesPrefix(entry.key, prefix)) {
+        return;
+      }
+      entry.invalidated = true;
+      entry.state = { ...entry.state, updatedAt: 0 };
+
+      const observer = Array.from(entry.observers).find(item => item.queryFn);
+      if (observer) {
+        refetches.push(this.fetch(entry.key, observer.queryFn!, { force: true }));
+      }
+    });
+
+    return Promise.all(refetches).then(() => undefined);
+  }
+
+  /**
+   * Drop the data of every query starting with `prefix`, or of all queries.
+   * Queries in use start over empty.
+   */
+  remove(prefix: QueryKey = []): void {
+    this.entries.forEach((entry, hash) => {
+      if (!matchesPrefix(entry.key, prefix)) {
+        return;
+      }
+      entry.controller?.abort();
+      entry.controller = null;
+      entry.promise = null;
+      entry.invalidated = false;
+
+      if (entry.observers.size === 0) {
+        this.cancelGC(entry);
+        this.entries.delete(hash);
+      } else {
+        this.update(entry, INITIAL_QUERY_STATE);
+      }
+    });
+  }
+
+  private ensure(key: QueryKey): QueryEntry {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: INITIAL_QUERY_STATE, observers: new Set(), controller: null, promise: null, invalidated: false, gcTimer: null };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  private update(entry: QueryEntry, next: Partial<QueryState<any>>): void {
+    entry.state = { ...entry.state, ...next };
+    entry.observers.forEach(observer => observer.notify());
+  }
+
+  private scheduleGC(entry: QueryEntry, cacheTime: number): void {
+    this.cancelGC(entry);
+    if (cacheTime === Infinity) {
+      return;
+    }
+
+    entry.gcTimer = setTimeout(() => {
+      const hash = hashQueryKey(entry.key);
+      if (entry.observers.size === 0 && this.entries.get(hash) === entry) {
+        entry.controller?.abort();
+        this.entries.delete(hash);
+      }
+    }, cacheTime);
+  }
+
+  private cancelGC(entry: QueryEntry): void {
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+  }
+}
+
+const caches = new WeakMap<SenseSpaceClient, QueryCache>();
+
+/**
+ * The query cache of a client, created on first use
+ */
+export function queryCacheFor(client: SenseSpaceClient): QueryCache {
+  let cache = caches.get(client);
+  if (!cache) {
+    cache = new QueryCache(client);
+    caches.set(client, cache);
+  }
+  return cache;
+}
@@ -0,0 +1,112 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useSenseSpaceQuery, useSenseSpaceMutation, useSenseSpaceInfiniteQuery, getQueryData } from './query';
+import { createMockClient } from './mock';
+import { APIResponse, Page } from './types';
+
+const ok = <T>(data: T): APIResponse<T> => ({ success: true, message: null, data });
+
+describe('useSenseSpaceQuery', () => {
+  it('shares one request between hooks using the same key', async () => {
+    const client = createMockClient();
+    const queryFn = vi.fn(async () => ok({ theme: 'dark' }));
+
+    const { result } = renderHook(() => ({
+      first: useSenseSpaceQuery(['settings'], queryFn, { client }),
+      second: useSenseSpaceQuery(['settings'], queryFn, { client })
+    }));
+
+    expect(result.current.first.loading).toBe(true);
+    await waitFor(() => expect(result.current.second.data).toEqual({ theme: 'dark' }));
+    expect(queryFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps data and reports the error when a refetch fails', async () => {
+    const client = createMockClient();
+    const queryFn = vi.fn()
+      .mockResolvedValueOnce(ok(1))
+      .mockResolvedValueOnce({ success: false, message: 'down', error: { kind: 'server' } });
+
+    const { result } = renderHook(() => useSenseSpaceQuery(['count'], queryFn, { client }));
+    await waitFor(() => expect(result.current.data).toBe(1));
+
+    await act(() => result.current.refetch());
+
+    expect(result.current.data).toBe(1);
+    expect(result.current.error?.kind).toBe('server');
+  });
+
+  it('does not fetch while disabled', async () => {
+    const client = createMockClient();
+    const queryFn = vi.fn(async () => ok(1));
+
+    const { result } = renderHook(() => useSenseSpaceQuery(['off'], queryFn, { client, enabled: false }));
+
+    expect(result.current.loading).toBe(false);
+    expect(queryFn).not.toHaveBeenCalled();
+  });
+});
+
+describe('useSenseSpaceMutation', () => {
+  it('applies optimistic updates and rolls them back on failure', async () => {
+    const client = createMockClient();
+    const { result } = renderHook(() => ({
+      query: useSenseSpaceQuery(['todos'], async () => ok(['a']), { client, staleTime: Infinity }),
+      mutation: useSenseSpaceMutation(
+        async (_todo: string) => ({ success: false, message: 'no', error: { kind: 'server' } } as APIResponse<void>),
+        { client, optimistic: [{ queryKey: ['todos'], update: (todos: string[] | null, todo) => [...(todos || []), todo] }] }
+      )
+    }));
+    await waitFor(() => expect(result.current.query.data).toEqual(['a']));
+
+    let pending!: Promise<APIResponse<void>>;
+    act(() => {
+      pending = result.current.mutation.mutate('b');
+    });
+    expect(result.current.query.data).toEqual(['a', 'b']);
+
+    await act(() => pending);
+    expect(result.current.query.data).toEqual(['a']);
+    expect(result.current.mutation.error?.kind).toBe('server');
+  });
+
+  it('refetches invalidated queries after success', async () => {
+    const client = createMockClient();
+    let count = 0;
+    const queryFn = vi.fn(async () => ok(++count));
+
+    const { result } = renderHook(() => ({
+      query: useSenseSpaceQuery(['counter', 1], queryFn, { client, staleTime: Infinity }),
+      mutation: useSenseSpaceMutation(async () => ok(null), { client, invalidates: [['counter']] })
+    }));
+    await waitFor(() => expect(result.current.query.data).toBe(1));
+
+    await act(() => result.current.mutation.mutate());
+
+    await waitFor(() => expect(result.current.query.data).toBe(2));
+    expect(getQueryData(client, ['counter', 1])).toBe(2);
+  });
+});
+
+describe('useSenseSpaceInfiniteQuery', () => {
+  it('appends pages until the last one', async () => {
+    const client = createMockClient();
+    const all = [1, 2, 3, 4, 5];
+    const queryFn = vi.fn(async ({ pageParam }: { pageParam: { offset?: number } | null }) => {
+      const offset = pageParam?.offset ?? 0;
+      return ok<Page<number>>({ items: all.slice(offset, offset + 2), offset, total: all.length });
+    });
+
+    const { result } = renderHook(() => useSenseSpaceInfiniteQuery(['numbers'], queryFn, { client }));
+    await waitFor(() => expect(result.current.items).toEqual([1, 2]));
+    expect(result.current.hasNextPage).toBe(true);
+
+    await act(() => result.current.fetchNextPage());
+    await act(() => result.current.fetchNextPage());
+
+    expect(result.current.items).toEqual([1, 2, 3, 4, 5]);
+    expect(result.current.hasNextPage).toBe(false);
+    expect(result.current.pages).toHaveLength(3);
+  });
+});
@@ -0,0 +1,286 @@
+import { useCallback, useContext, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import {
+  SenseSpaceClient,
+  APIResponse,
+  QueryKey,
+  QueryFunction,
+  UseSenseSpaceQueryOptions,
+  UseSenseSpaceQueryReturn,
+  MutationFunction,
+  UseSenseSpaceMutationOptions,
+  UseSenseSpaceMutationReturn,
+  Page,
+  InfiniteData,
+  InfiniteQueryFunction,
+  UseSenseSpaceInfiniteQueryOptions,
+  UseSenseSpaceInfiniteQueryReturn
+} from './types';
+import { SenseSpaceError, toSenseSpaceError } from './errors';
+import { SenseSpaceContext } from './context';
+import { DEFAULT_CACHE_TIME, hashQueryKey, queryCacheFor } from './query-cache';
+import { getNextPageParam } from './pagination';
+import { useAsyncAction } from './async-action';
+
+function useResolvedClient(client: SenseSpaceClient | undefined, hook: string): SenseSpaceClient {
+  const contextClient = useContext(SenseSpaceContext);
+  const resolved = client || contextClient;
+
+  if (!resolved) {
+    throw new Error(`${hook} must be used within a <SenseSpaceProvider>; pass options.client otherwise`);
+  }
+  return resolved;
+}
+
+/**
+ * React Hook for any read call. Components using the same key share one request and
+ * its result; cached data is shown while it refetches.
+ */
+export function useSenseSpaceQuery<T>(
+  queryKey: QueryKey,
+  queryFn: QueryFunction<T>,
+  options: UseSenseSpaceQueryOptions = {}
+): UseSenseSpaceQueryReturn<T> {
+  const { enabled = true, staleTime = 0, cacheTime = DEFAULT_CACHE_TIME, refetchInterval } = options;
+  const client = useResolvedClient(options.client, 'useSenseSpaceQuery');
+  const cache = queryCacheFor(client);
+  const hash = hashQueryKey(queryKey);
+  const [, forceRender] = useReducer((count: number) => count + 1, 0);
+
+  // The latest function and key are read through refs, so inline values do not refetch every render
+  const queryFnRef = useRef(queryFn);
+  queryFnRef.current = queryFn;
+  const keyRef = useRef(queryKey);
+  keyRef.current = queryKey;
+
+  const run = useCallback<QueryFunction<T>>(context => queryFnRef.current(context), []);
+
+  useEffect(() => {
+    const unsubscribe = cache.subscribe(keyRef.current, {
+      notify: forceRender,
+      queryFn: enabled ? run : undefined,
+      cacheTime
+    });
+
+    if (enabled) {
+      cache.fetch(keyRef.current, run, { staleTime });
+    }
+    // The state may have changed between render and subscribing
+    forceRender();
+    return unsubscribe;
+  }, [cache, hash, enabled, staleTime, cacheTime, run]);
+
+  useEffect(() => {
+    if (!refetchInterval || !enabled) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      cache.fetch(keyRef.current, run, { force: true });
+    }, refetchInterval);
+
+    return () => clearInterval(interval);
+  }, [cache, hash, refetchInterval, enabled, run]);
+
+  const refetch = useCallback(() => cache.fetch(keyRef.current, run, { force: true }), [cache, hash, run]);
+
+  const state = cache.getState<T>(queryKey);
+  return {
+    data: state.data,
+    loading: state.data === null && (state.isFetching || (enabled && state.updatedAt === 0 && !state.error)),
+    isFetching: state.isFetching,
+    error: state.error,
+    refetch
+  };
+}
+
+/**
+ * React Hook for paginated lists, e.g. infinite scroll. The query loads the first page;
+ * fetchNextPage appends the following ones. Refetching starts over from the first page.
+ */
+export function useSenseSpaceInfiniteQuery<T>(
+  queryKey: QueryKey,
+  queryFn: InfiniteQueryFunction<T>,
+  options: UseSenseSpaceInfiniteQueryOptions<T> = {}
+): UseSenseSpaceInfiniteQueryReturn<T> {
+  const { getNextPageParam: nextPageParam = getNextPageParam, getItemKey, ...queryOptions } = options;
+  const client = useResolvedClient(options.client, 'useSenseSpaceInfiniteQuery');
+  const hash = hashQueryKey(queryKey);
+  const [isFetchingNextPage, setFetchingNextPage] = useState(false);
+  const [nextPageError, setNextPageError] = useState<SenseSpaceError | null>(null);
+  const nextPageRef = useRef<{ promise: Promise<void>; controller: AbortController } | null>(null);
+
+  const queryFnRef = useRef(queryFn);
+  queryFnRef.current = queryFn;
+  const keyRef = useRef(queryKey);
+  keyRef.current = queryKey;
+  const nextPageParamRef = useRef(nextPageParam);
+  nextPageParamRef.current = nextPageParam;
+
+  const query = useSenseSpaceQuery<InfiniteData<T>>(queryKey, async context => {
+    const response = await queryFnRef.current({ ...context, pageParam: null });
+    if (!response.success) {
+      return { success: false, message: response.message, error: response.error };
+    }
+    return { ...response, data: { pages: [response.data || { items: [] }], pageParams: [null] } };
+  }, { ...queryOptions, client });
+
+  // A next page in flight belongs to the previous key, or to nobody after unmount
+  useEffect(() => {
+    setNextPageError(null);
+    return () => {
+      nextPageRef.current?.controller.abort();
+      nextPageRef.current = null;
+      setFetchingNextPage(false);
+    };
+  }, [client, hash]);
+
+  const fetchNextPage = useCallback(() => {
+    if (nextPageRef.current) {
+      return nextPageRef.current.promise;
+    }
+
+    const cache = queryCacheFor(client);
+    const key = keyRef.current;
+    const current = cache.getState<InfiniteData<T>>(key).data;
+    const lastPage = current?.pages[current.pages.length - 1];
+    const pageParam = current && lastPage ? nextPageParamRef.current(lastPage, current.pages) : null;
+    if (!current || !pageParam) {
+      return Promise.resolve();
+    }
+
+    const controller = new AbortController();
+    setFetchingNextPage(true);
+    setNextPageError(null);
+
+    const promise = Promise.resolve()
+      .then(() => queryFnRef.current({ client, queryKey: key, signal: controller.signal, cache: 'default', pageParam }))
+      .catch((error): APIResponse<Page<T>> => ({ success: false, message: null, error: toSenseSpaceError(error) }))
+      .then(response => {
+        if (nextPageRef.current?.controller !== controller) {
+          return;
+        }
+        nextPageRef.current = null;
+        setFetchingNextPage(false);
+
+        if (response.success) {
+          // Drop the page if the list was refetched or changed meanwhile
+          if (cache.getState<InfiniteData<T>>(key).data === current) {
+            cache.setData<InfiniteData<T>>(key, {
+              pages: [...current.pages, response.data || { items: [] }],
+              pageParams: [...current.pageParams, pageParam]
+            });
+          }
+        } else if (response.error?.kind !== 'cancelled') {
+          setNextPageError(response.error || new SenseSpaceError({
+            kind: 'unknown',
+            message: response.message || 'Failed to fetch the next page'
+          }));
+        }
+      });
+
+    nextPageRef.current = { promise, controller };
+    return promise;
+  }, [client, hash]);
+
+  const pages = query.data?.pages || [];
+  const lastPage = pages[pages.length - 1];
+
+  const items = useMemo(() => {
+    const all = pages.flatMap(page => page.items);
+    if (!getItemKey) {
+      return all;
+    }
+    const seen = new Set<string | number>();
+    return all.filter(item => {
+      const key = getItemKey(item);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }, [query.data, getItemKey]);
+
+  return {
+    pages,
+    items,
+    loading: query.loading,
+    isFetching: query.isFetching || isFetchingNextPage,
+    isFetchingNextPage,
+    error: query.error || nextPageError,
+    hasNextPage: !!lastPage && nextPageParam(lastPage, pages) !== null,
+    fetchNextPage,
+    refetch: query.refetch
+  };
+}
+
+/**
+ * React Hook for any write call, with optimistic updates of query data that are rolled
+ * back on failure, and invalidation of the queries the write affects
+ */
+export function useSenseSpaceMutation<TData = unknown, TVariables = void>(
+  mutationFn: MutationFunction<TData, TVariables>,
+  options: UseSenseSpaceMutationOptions<TData, TVariables> = {}
+): UseSenseSpaceMutationReturn<TData, TVariables> {
+  const client = useResolvedClient(options.client, 'useSenseSpaceMutation');
+  const { state, run, reset } = useAsyncAction<TData>();
+
+  const mutationFnRef = useRef(mutationFn);
+  mutationFnRef.current = mutationFn;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const mutate = useCallback(async (variables: TVariables) => {
+    const { optimistic = [], invalidates, onSuccess, onError, onSettled } = optionsRef.current;
+    const cache = queryCacheFor(client);
+
+    // Stop fetches in flight from overwriting the optimistic data, then apply it
+    const snapshots = optimistic.map(({ queryKey, update }) => {
+      cache.cancel(queryKey);
+      const snapshot = { queryKey, state: cache.getState(queryKey) };
+      cache.setData(queryKey, (current: unknown) => update(current, variables));
+      return snapshot;
+    });
+
+    const response = await run(() => mutationFnRef.current(variables, client));
+
+    if (response.success) {
+      const keys = typeof invalidates === 'function' ? invalidates(response.data, variables) : invalidates || [];
+      keys.forEach(queryKey => {
+        cache.invalidate(queryKey);
+      });
+      onSuccess?.(response.data, variables);
+    } else {
+      snapshots.reverse().forEach(({ queryKey, state }) => cache.restore(queryKey, state));
+      onError?.(response.error || new SenseSpaceError({
+        kind: 'unknown',
+        message: response.message || 'Mutation failed'
+      }), variables);
+    }
+    onSettled?.(response, variables);
+    return response;
+  }, [client, run]);
+
+  return { ...state, mutate, reset };
+}
+
+/**
+ * Cached data of a query, or null
+ */
+export function getQueryData<T>(client: SenseSpaceClient, queryKey: QueryKey): T | null {
+  return queryCacheFor(client).getState<T>(queryKey).data;
+}
+
+/**
+ * Replace the cached data of a query, e.g. with the result of a mutation
+ */
+export function setQueryData<T>(client: SenseSpaceClient, queryKey: QueryKey, updater: T | ((current: T | null) => T)): void {
+  queryCacheFor(client).setData(queryKey, updater);
+}
+
+/**
+ * Mark queries starting with `queryKey` (or all queries) stale and refetch those in use
+ */
+export function invalidateQueries(client: SenseSpaceClient, queryKey?: QueryKey): Promise<void> {
+  return queryCacheFor(client).invalidate(queryKey);
+}
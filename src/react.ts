@@ -1,3 +1,24 @@
 // React Hooks exports
 // Import this file separately in React applications
-export { useUserProfile, useSenseSpaceClient } from './hooks';
\ No newline at end of file
+export {
+  useUserProfile,
+  useSenseSpaceClient,
+  useLaunchContext,
+  useCurrentUser,
+  useSignMessage,
+  useSignTypedData,
+  useSendTransaction,
+  useSignIn,
+  useUpdateUserProfile
+} from './hooks';
+export { useSuspenseUserProfile, preloadUserProfile, clearSuspenseCache } from './suspense';
+export {
+  useSenseSpaceQuery,
+  useSenseSpaceMutation,
+  useSenseSpaceInfiniteQuery,
+  getQueryData,
+  setQueryData,
+  invalidateQueries
+} from './query';
+export { SenseSpaceProvider, useSenseSpace, useHostBridge } from './context';
+export type { SenseSpaceProviderProps } from './context';
\ No newline at end of file
@@ -0,0 +1,88 @@
+/**
+ * Content-type aware response body parsing
+ */
+import { ResponseBodyType } from './types';
+
+export type ParsedBody =
+  | { type: 'empty' }
+  | { type: 'json'; value: any }
+  | { type: 'text'; value: string }
+  | { type: 'blob'; value: Blob };
+
+/**
+ * Raised when a response body cannot be read as the expected format
+ */
+export class ResponseParseError extends Error {
+  readonly contentType: string | null;
+  readonly body?: string;
+
+  constructor(message: string, contentType: string | null, body?: string) {
+    super(message);
+    this.name = 'ResponseParseError';
+    this.contentType = contentType;
+    this.body = body;
+  }
+}
+
+const EMPTY_BODY_STATUSES = [204, 205, 304];
+const BODY_SNIPPET_LENGTH = 200;
+
+/**
+ * Check whether a Content-Type header denotes JSON (application/json or +json)
+ */
+export function isJSONContentType(contentType: string | null): boolean {
+  if (!contentType) {
+    return false;
+  }
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  return mediaType === 'application/json' || mediaType.endsWith('+json');
+}
+
+function isTextContentType(contentType: string | null): boolean {
+  return !!contentType && contentType.trim().toLowerCase().startsWith('text/');
+}
+
+/**
+ * Read a response body according to the requested type and the Content-Type header.
+ * Throws ResponseParseError when the body does not match what was expected.
+ */
+export async function readResponseBody(
+  response: Response,
+  responseType: ResponseBodyType = 'json'
+): Promise<ParsedBody> {
+  if (EMPTY_BODY_STATUSES.includes(response.status)) {
+    return { type: 'empty' };
+  }
+
+  const contentType = response.headers.get('Content-Type');
+
+  const wantsBlob = responseType === 'blob' || (
+    responseType === 'auto' && !!contentType && !isJSONContentType(contentType) && !isTextContentType(contentType)
+  );
+  if (wantsBlob) {
+    const blob = await response.blob();
+    return blob.size === 0 ? { type: 'empty' } : { type: 'blob', value: blob };
+  }
+
+  const text = await response.text();
+  if (text.trim() === '') {
+    return { type: 'empty' };
+  }
+
+  if (responseType === 'text' || (responseType === 'auto' && !isJSONContentType(contentType))) {
+    return { type: 'text', value: text };
+  }
+
+  try {
+    return { type: 'json', value: JSON.parse(text) };
+  } catch {
+    const snippet = text.slice(0, BODY_SNIPPET_LENGTH);
+    throw new ResponseParseError(
+      isJSONContentType(contentType) || !contentType
+        ? 'Malformed JSON in response body'
+        : `Expected JSON response but received ${contentType.split(';')[0]}`,
+      contentType,
+      snippet
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computeBackoffDelay, parseRetryAfter, resolveRetryPolicy, DEFAULT_RETRY_POLICY } from './retry';
+import { createSenseSpaceClient } from './core';
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+describe('resolveRetryPolicy', () => {
+  it('merges request settings over client settings over the defaults', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 5, baseDelay: 10 }, { baseDelay: 20 });
+    expect(policy).toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 5, baseDelay: 20 });
+  });
+
+  it('is disabled by false at either level', () => {
+    expect(resolveRetryPolicy(false)).toBeNull();
+    expect(resolveRetryPolicy({}, false)).toBeNull();
+    expect(resolveRetryPolicy(false, { maxAttempts: 2 })).not.toBeNull();
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, baseDelay: 100, maxDelay: 1000, jitter: false };
+
+  it('doubles per attempt up to maxDelay', () => {
+    expect([1, 2, 3, 4, 5].map(attempt => computeBackoffDelay(policy, attempt))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('randomizes only the jitter fraction of the delay', () => {
+    const random = vi.spyOn(Math, 'random');
+    random.mockReturnValue(0);
+    expect(computeBackoffDelay({ ...policy, jitter: 0.25 }, 3)).toBe(300);
+    random.mockReturnValue(0.999999);
+    expect(computeBackoffDelay({ ...policy, jitter: true }, 3)).toBe(400);
+    random.mockRestore();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(58000);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+});
+
+describe('client retries', () => {
+  const retry = { baseDelay: 0, jitter: false };
+
+  it('retries retryable statuses for idempotent methods', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ message: 'down' }, 503))
+      .mockResolvedValueOnce(jsonResponse({ message: 'down' }, 502))
+      .mockResolvedValueOnce(jsonResponse({ success: true, message: null, data: { ok: true } }));
+    const client = createSenseSpaceClient({ token: 't', fetch, retry });
+
+    const response = await client.request('GET', '/api/thing');
+
+    expect(response).toEqual({ success: true, message: null, data: { ok: true } });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry POST or non-retryable statuses', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ message: 'down' }, 503));
+    const client = createSenseSpaceClient({ token: 't', fetch, retry });
+
+    await client.request('POST', '/api/thing', { body: {} });
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    fetch.mockResolvedValue(jsonResponse({ message: 'nope' }, 400));
+    await client.request('GET', '/api/thing');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries network errors and gives up after maxAttempts', async () => {
+    const fetch = vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    const client = createSenseSpaceClient({ token: 't', fetch, retry: { ...retry, maxAttempts: 2 } });
+
+    const response = await client.request('GET', '/api/thing');
+
+    expect(response.error?.kind).toBe('network');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when Retry-After is longer than maxDelay', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ message: 'slow down' }, 429, { 'Retry-After': '60' }));
+    const client = createSenseSpaceClient({ token: 't', fetch, retry });
+
+    const response = await client.request('GET', '/api/thing');
+
+    expect(response.error?.kind).toBe('rate_limited');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Retry policy helpers for SenseSpace SDK requests
+ */
+import { RetryPolicy, HTTPMethod } from './types';
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 5000,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnErrors: ['timeout', 'network'],
+  retryMethods: ['GET', 'PUT', 'DELETE'],
+  respectRetryAfter: true
+};
+
+/**
+ * Merge client-level and request-level retry settings over the defaults.
+ * `false` at either level disables retries entirely.
+ */
+export function resolveRetryPolicy(
+  clientPolicy?: RetryPolicy | false,
+  requestPolicy?: RetryPolicy | false
+): Required<RetryPolicy> | null {
+  if (clientPolicy === false && requestPolicy === undefined) {
+    return null;
+  }
+  if (requestPolicy === false) {
+    return null;
+  }
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(clientPolicy || {}),
+    ...(requestPolicy || {})
+  };
+}
+
+/**
+ * Check whether a request method may be retried under the given policy
+ */
+export function isMethodRetryable(policy: Required<RetryPolicy>, method: HTTPMethod): boolean {
+  return policy.retryMethods.includes(method);
+}
+
+/**
+ * Compute the delay before the next attempt using exponential backoff.
+ * `attempt` is the number of attempts already made (starting at 1).
+ */
+export function computeBackoffDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt - 1));
+
+  if (!policy.jitter) {
+    return exponential;
+  }
+
+  // Full jitter by default; a numeric jitter randomizes only that fraction of the delay
+  const ratio = typeof policy.jitter === 'number' ? Math.min(Math.max(policy.jitter, 0), 1) : 1;
+  return Math.round(exponential * (1 - ratio) + Math.random() * exponential * ratio);
+}
+
+/**
+ * Parse a Retry-After header value (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Wait for the given number of milliseconds, resolving early if `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
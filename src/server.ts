@@ -0,0 +1,21 @@
+// Server-side exports
+// Import this file in Node.js 18+ or edge runtimes to verify launch data
+export {
+  verifyLaunchData,
+  verifyLaunchToken,
+  verifySignIn,
+  buildDataCheckString,
+  createMemoryReplayStore
+} from './verify';
+export { generateNonce, parseSignInMessage } from './siwe';
+
+export type {
+  LaunchIdentity,
+  LaunchVerificationOptions,
+  LaunchTokenVerificationOptions,
+  ReplayStore,
+  JWTAlgorithm,
+  SignInMessageFields,
+  SignInVerificationOptions,
+  VerifiedSignIn
+} from './types';
\ No newline at end of file
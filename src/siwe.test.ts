@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { createSignInMessage, parseSignInMessage, signInWithWallet, generateNonce } from './siwe';
+import { verifySignIn } from './verify';
+import { hashPersonalMessage, toChecksumAddress } from './ethereum';
+import { createMockHostBridge } from './mock';
+import { createWallet } from './wallet';
+import { SignInVerificationOptions } from './types';
+
+const privateKey = keccak_256(utf8ToBytes('sign-in test key'));
+const address = toChecksumAddress(`0x${bytesToHex(keccak_256(secp256k1.getPublicKey(privateKey, false).slice(1)).slice(12))}`);
+const otherKey = keccak_256(utf8ToBytes('someone else'));
+
+function personalSign(message: string, key: Uint8Array = privateKey): string {
+  const signature = secp256k1.sign(hashPersonalMessage(message), key);
+  return `0x${signature.toCompactHex()}${(27 + signature.recovery!).toString(16)}`;
+}
+
+// A host wallet backed by the test key
+function createTestWallet(key: Uint8Array = privateKey) {
+  return createWallet(createMockHostBridge({
+    handlers: {
+      wallet_getAccount: () => ({ address: address.toLowerCase(), chainId: '0x89' }),
+      wallet_signMessage: params => ({ signature: personalSign((params as { message: string }).message, key), address })
+    }
+  }));
+}
+
+const NONCE = 'abcdEFGH1234';
+
+async function signIn(key?: Uint8Array) {
+  const result = await signInWithWallet(createTestWallet(key), {
+    nonce: NONCE,
+    userId: 'user-1',
+    domain: 'app.example.com',
+    uri: 'https://app.example.com',
+    statement: 'Sign in to Example'
+  });
+  return result.data!;
+}
+
+const verifyOptions: SignInVerificationOptions = { domain: 'app.example.com', nonce: NONCE };
+
+describe('sign-in messages', () => {
+  it('round-trips through create and parse', () => {
+    const fields = {
+      domain: 'app.example.com',
+      address,
+      statement: 'Hello',
+      uri: 'https://app.example.com',
+      version: '1' as const,
+      chainId: 1,
+      nonce: NONCE,
+      issuedAt: '2026-01-01T00:00:00.000Z',
+      resources: ['sensespace:user:user-1']
+    };
+
+    expect(parseSignInMessage(createSignInMessage(fields))).toEqual(fields);
+    expect(parseSignInMessage('not a sign-in message')).toBeNull();
+  });
+
+  it('generates alphanumeric nonces', () => {
+    expect(generateNonce()).toMatch(/^[a-zA-Z0-9]{17}$/);
+  });
+});
+
+describe('signInWithWallet', () => {
+  it('uses the wallet account and chain, checksummed', async () => {
+    const { message } = await signIn();
+    const fields = parseSignInMessage(message)!;
+
+    expect(fields.address).toBe(address);
+    expect(fields.chainId).toBe(137);
+    expect(fields.resources).toEqual(['sensespace:user:user-1']);
+  });
+
+  it('rejects short nonces before prompting', async () => {
+    const result = await signInWithWallet(createTestWallet(), { nonce: 'short', domain: 'a', uri: 'https://a' });
+    expect(result.error?.kind).toBe('invalid_request');
+  });
+});
+
+describe('verifySignIn', () => {
+  it('accepts an authentic message', async () => {
+    const { message, signature } = await signIn();
+
+    const result = await verifySignIn(message, signature, { ...verifyOptions, userId: 'user-1', address });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ address, userId: 'user-1', chainId: 137, nonce: NONCE });
+  });
+
+  it('rejects a tampered message', async () => {
+    const { message, signature } = await signIn();
+    const tampered = message.replace('Sign in to Example', 'Sign in to Evil');
+
+    expect((await verifySignIn(tampered, signature, verifyOptions)).error?.code).toBe('invalid_signature');
+  });
+
+  it('rejects a signature from another key', async () => {
+    const { message } = await signIn();
+
+    expect((await verifySignIn(message, personalSign(message, otherKey), verifyOptions)).error?.code).toBe('invalid_signature');
+  });
+
+  it('checks domain, nonce, user and expiry', async () => {
+    const { message, signature } = await signIn();
+
+    expect((await verifySignIn(message, signature, { ...verifyOptions, domain: 'evil.com' })).error?.code).toBe('invalid_claims');
+    expect((await verifySignIn(message, signature, { ...verifyOptions, nonce: 'otherNonce1' })).error?.code).toBe('replayed');
+    expect((await verifySignIn(message, signature, { ...verifyOptions, userId: 'user-2' })).error?.code).toBe('invalid_claims');
+    expect((await verifySignIn(message, signature, { ...verifyOptions, now: () => Date.now() + 3600_000 })).error?.code).toBe('expired');
+    expect((await verifySignIn('garbage', signature, verifyOptions)).error?.code).toBe('malformed');
+  });
+
+  it('only consumes the nonce for an authentic message', async () => {
+    const { message, signature } = await signIn();
+    const verifyNonce = vi.fn(() => true);
+
+    await verifySignIn(message, personalSign(message, otherKey), { domain: 'app.example.com', verifyNonce });
+    expect(verifyNonce).not.toHaveBeenCalled();
+
+    await verifySignIn(message, signature, { domain: 'app.example.com', verifyNonce });
+    expect(verifyNonce).toHaveBeenCalledWith(NONCE);
+  });
+});
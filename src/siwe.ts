@@ -0,0 +1,208 @@
+/**
+ * Sign-in with wallet: EIP-4361 (Sign-In with Ethereum) challenge messages
+ * signed by the host wallet, proving the user controls their wallet address
+ */
+import {
+  APIResponse,
+  HostBridgeRequestOptions,
+  SenseSpaceWallet,
+  SignInMessageFields,
+  SignInRequest,
+  SignInResult
+} from './types';
+import { SenseSpaceError } from './errors';
+import { isBrowser } from './utils';
+import { isAddress, toChecksumAddress } from './ethereum';
+
+const DEFAULT_SIGN_IN_EXPIRY = 600000; // 10 minutes
+const NONCE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// The SenseSpace user id is bound to the message as a resource URI
+export const SENSESPACE_USER_RESOURCE = 'sensespace:user:';
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+const FIELD_TAGS: Array<[keyof SignInMessageFields, string]> = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID']
+];
+
+function invalidSignIn<T>(message: string): APIResponse<T> {
+  return {
+    success: false,
+    message: null,
+    error: new SenseSpaceError({ kind: 'invalid_request', message, retryable: false })
+  };
+}
+
+/**
+ * Random alphanumeric nonce for a sign-in challenge. Issue it from your backend
+ * and keep it with the session until the signed message comes back.
+ */
+export function generateNonce(length: number = 17): string {
+  const bytes = new Uint8Array(length);
+  globalThis.crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => NONCE_ALPHABET[byte % NONCE_ALPHABET.length]).join('');
+}
+
+/**
+ * Format sign-in fields as an EIP-4361 message
+ */
+export function createSignInMessage(fields: SignInMessageFields): string {
+  const lines = [`${fields.domain}${HEADER_SUFFIX}`, fields.address, ''];
+  if (fields.statement) {
+    lines.push(fields.statement);
+  }
+  lines.push('');
+
+  FIELD_TAGS.forEach(([key, tag]) => {
+    const value = fields[key];
+    if (value !== undefined) {
+      lines.push(`${tag}: ${value}`);
+    }
+  });
+
+  if (fields.resources?.length) {
+    lines.push('Resources:', ...fields.resources.map(resource => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse an EIP-4361 message back into its fields, or null if it is malformed
+ */
+export function parseSignInMessage(message: string): SignInMessageFields | null {
+  const lines = message.split('\n');
+
+  const header = lines[0] || '';
+  if (!header.endsWith(HEADER_SUFFIX) || lines[2] !== '') {
+    return null;
+  }
+
+  const fields: Partial<SignInMessageFields> = {
+    domain: header.slice(0, -HEADER_SUFFIX.length),
+    address: lines[1]
+  };
+
+  let index = 3;
+  if (lines[index] !== '') {
+    fields.statement = lines[index++];
+  }
+  if (lines[index++] !== '') {
+    return null;
+  }
+
+  for (const [key, tag] of FIELD_TAGS) {
+    const line = lines[index];
+    if (line === undefined || !line.startsWith(`${tag}: `)) {
+      continue; // Optional fields may be absent; required ones are checked below
+    }
+    const value = line.slice(tag.length + 2);
+    (fields as Record<string, unknown>)[key] = key === 'chainId' ? Number(value) : value;
+    index++;
+  }
+
+  if (lines[index] === 'Resources:') {
+    fields.resources = [];
+    for (index++; index < lines.length && lines[index].startsWith('- '); index++) {
+      fields.resources.push(lines[index].slice(2));
+    }
+  }
+
+  if (
+    index !== lines.length ||
+    !fields.domain ||
+    !fields.uri ||
+    fields.version !== '1' ||
+    !Number.isInteger(fields.chainId) ||
+    !fields.nonce ||
+    !fields.issuedAt
+  ) {
+    return null;
+  }
+
+  return fields as SignInMessageFields;
+}
+
+/**
+ * SenseSpace user id bound to a sign-in message, if any
+ */
+export function getSignInUserId(fields: SignInMessageFields): string | undefined {
+  const resource = fields.resources?.find(value => value.startsWith(SENSESPACE_USER_RESOURCE));
+  return resource ? resource.slice(SENSESPACE_USER_RESOURCE.length) : undefined;
+}
+
+/**
+ * Build a sign-in challenge and have the host wallet sign it. Send the result
+ * to your backend and check it with `verifySignIn` from the server entry point.
+ */
+export async function signInWithWallet(
+  wallet: SenseSpaceWallet,
+  request: SignInRequest,
+  options?: HostBridgeRequestOptions
+): Promise<APIResponse<SignInResult>> {
+  if (!/^[a-zA-Z0-9]{8,}$/.test(request.nonce || '')) {
+    return invalidSignIn('Sign-in nonce must be at least 8 alphanumeric characters');
+  }
+
+  if (request.statement?.includes('\n')) {
+    return invalidSignIn('Sign-in statement must be a single line');
+  }
+
+  const domain = request.domain || (isBrowser() ? window.location.host : '');
+  const uri = request.uri || (isBrowser() ? window.location.origin : '');
+  if (!domain || !uri) {
+    return invalidSignIn('Sign-in requires a `domain` and `uri` outside the browser');
+  }
+
+  let { address, chainId } = request;
+  if (!address) {
+    const account = await wallet.getAccount(options);
+    if (!account.success || !account.data) {
+      return { success: false, message: account.message, error: account.error };
+    }
+    address = account.data.address;
+    chainId = chainId ?? (Number(account.data.chainId) || undefined);
+  }
+  if (!isAddress(address)) {
+    return invalidSignIn(`"${address}" is not a valid wallet address`);
+  }
+
+  const issuedAt = new Date();
+  const resources = [...(request.resources || [])];
+  if (request.userId) {
+    resources.unshift(`${SENSESPACE_USER_RESOURCE}${request.userId}`);
+  }
+
+  const message = createSignInMessage({
+    domain,
+    address: toChecksumAddress(address), // EIP-4361 requires the checksummed form
+    statement: request.statement,
+    uri,
+    version: '1',
+    chainId: chainId ?? 1,
+    nonce: request.nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: new Date(issuedAt.getTime() + (request.expiresIn ?? DEFAULT_SIGN_IN_EXPIRY)).toISOString(),
+    requestId: request.requestId,
+    resources: resources.length ? resources : undefined
+  });
+
+  const signed = await wallet.signMessage({ message, address }, options);
+  if (!signed.success || !signed.data) {
+    return { success: false, message: signed.message, error: signed.error };
+  }
+
+  return {
+    success: true,
+    message: null,
+    data: { message, signature: signed.data.signature, address: signed.data.address || address }
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Storage adapters for the persistent profile cache
+ */
+import { PersistedEntry, StorageAdapter } from './types';
+
+const DEFAULT_NAMESPACE = 'sensespace';
+const STORE_NAME = 'entries';
+
+/**
+ * Whether an error means the storage is full
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  const { name, code } = (error || {}) as { name?: string; code?: number };
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME);
+  };
+
+  // An upgrade blocked by another tab's open connection would otherwise never settle
+  return new Promise((resolve, reject) => {
+    let blocked = false;
+    request.onblocked = () => {
+      blocked = true;
+      reject(new Error('Opening IndexedDB is blocked by another tab'));
+    };
+    request.onsuccess = () => {
+      if (blocked) {
+        request.result.close();
+      } else {
+        resolve(request.result);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB adapter. Entries live in their own database, named after the namespace.
+ */
+export function createIndexedDBStorage(namespace: string = DEFAULT_NAMESPACE): StorageAdapter {
+  let database: Promise<IDBDatabase> | null = null;
+
+  // Open lazily, and retry on the next call if opening failed (e.g. blocked by another tab)
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    if (!database) {
+      database = openDatabase(namespace).catch(error => {
+        database = null;
+        throw error;
+      });
+    }
+    const db = await database;
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+
+    // Writes only count once the transaction commits; quota errors surface here
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = transaction.onerror = () => reject(transaction.error || request.error);
+    });
+    return request.result;
+  };
+
+  return {
+    get: key => withStore('readonly', store => store.get(key)).then(value => value as PersistedEntry | undefined),
+    set: (key, entry) => withStore('readwrite', store => store.put(entry, key)).then(() => undefined),
+    delete: key => withStore('readwrite', store => store.delete(key)).then(() => undefined),
+    clear: () => withStore('readwrite', store => store.clear()).then(() => undefined),
+    keys: () => withStore('readonly', store => store.getAllKeys()).then(keys => keys.map(String))
+  };
+}
+
+/**
+ * Web Storage adapter (localStorage by default). Keys are prefixed with the namespace
+ * so clearing does not touch the app's own data.
+ */
+export function createWebStorage(storage: Storage = globalThis.localStorage, namespace: string = DEFAULT_NAMESPACE): StorageAdapter {
+  const prefix = `${namespace}:`;
+
+  const ownKeys = () => {
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key?.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  };
+
+  return {
+    async get(key) {
+      const raw = storage.getItem(prefix + key);
+      if (raw === null) {
+        return undefined;
+      }
+      try {
+        return JSON.parse(raw) as PersistedEntry;
+      } catch {
+        storage.removeItem(prefix + key);
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      storage.setItem(prefix + key, JSON.stringify(entry));
+    },
+    async delete(key) {
+      storage.removeItem(prefix + key);
+    },
+    async clear() {
+      ownKeys().forEach(key => storage.removeItem(key));
+    },
+    async keys() {
+      return ownKeys().map(key => key.slice(prefix.length));
+    }
+  };
+}
+
+/**
+ * In-memory adapter, for tests and runtimes without persistent storage
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const entries = new Map<string, PersistedEntry>();
+
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, entry) {
+      entries.set(key, entry);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    },
+    async keys() {
+      return Array.from(entries.keys());
+    }
+  };
+}
+
+/**
+ * Whether localStorage can be used
+ */
+export function hasWebStorage(): boolean {
+  try {
+    // Accessing localStorage throws in some sandboxed iframes
+    return typeof globalThis.localStorage !== 'undefined' && globalThis.localStorage !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IndexedDB when it can be opened, otherwise localStorage. Returns null when neither
+ * exists (e.g. on the server), in which case nothing is persisted.
+ */
+export function createAutoStorage(namespace: string = DEFAULT_NAMESPACE): StorageAdapter | null {
+  const canUseIndexedDB = typeof indexedDB !== 'undefined';
+  const canUseWebStorage = hasWebStorage();
+
+  if (!canUseIndexedDB) {
+    return canUseWebStorage ? createWebStorage(globalThis.localStorage, namespace) : null;
+  }
+  if (!canUseWebStorage) {
+    return createIndexedDBStorage(namespace);
+  }
+
+  // IndexedDB can exist yet fail to open (private browsing in some browsers), so decide on first use
+  const indexedDBStorage = createIndexedDBStorage(namespace);
+  let resolved: Promise<StorageAdapter> | null = null;
+  const resolve = () => {
+    if (!resolved) {
+      resolved = indexedDBStorage.keys().then(
+        () => indexedDBStorage,
+        () => createWebStorage(globalThis.localStorage, namespace)
+      );
+    }
+    return resolved;
+  };
+
+  return {
+    get: key => resolve().then(storage => storage.get(key)),
+    set: (key, entry) => resolve().then(storage => storage.set(key, entry)),
+    delete: key => resolve().then(storage => storage.delete(key)),
+    clear: () => resolve().then(storage => storage.clear()),
+    keys: () => resolve().then(storage => storage.keys())
+  };
+}
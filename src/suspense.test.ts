@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { Component, createElement, ReactNode, Suspense } from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { useSuspenseUserProfile } from './suspense';
+import { createMockClient } from './mock';
+import { createSenseSpaceClient } from './core';
+import { SenseSpaceClient } from './types';
+
+// Minimal error boundary that starts over when `resetKey` changes
+class Boundary extends Component<{ resetKey: number; children: ReactNode }, { error: Error | null }> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidUpdate(previous: { resetKey: number }) {
+    if (previous.resetKey !== this.props.resetKey && this.state.error) {
+      this.setState({ error: null });
+    }
+  }
+
+  render() {
+    return this.state.error ? createElement('p', null, `error: ${this.state.error.message}`) : this.props.children;
+  }
+}
+
+function Profile({ client, userId }: { client: SenseSpaceClient; userId: string }) {
+  const { data } = useSuspenseUserProfile(client, userId);
+  return createElement('p', null, `bio: ${data.bio}`);
+}
+
+function renderProfile(client: SenseSpaceClient, userId: string, resetKey = 0) {
+  return createElement(Boundary, { resetKey },
+    createElement(Suspense, { fallback: createElement('p', null, 'loading') },
+      createElement(Profile, { client, userId })));
+}
+
+const profileCalls = (client: ReturnType<typeof createMockClient>) =>
+  client.calls.filter(call => call.method === 'getUserProfile').length;
+
+describe('useSuspenseUserProfile', () => {
+  it('loads again after a failure once the boundary resets', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {}); // React logs errors caught by boundaries
+    const client = createMockClient();
+    const view = render(renderProfile(client, 'user-1'));
+
+    expect(await screen.findByText(/^error:/)).toBeTruthy();
+    view.rerender(renderProfile(client, 'user-1'));
+    await act(() => new Promise(resolve => setTimeout(resolve, 50)));
+    expect(profileCalls(client)).toBe(1);
+
+    client.setProfile({ id: 'user-1', bio: 'back' });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 5000); // Past the short window a failure is rethrown
+    view.rerender(renderProfile(client, 'user-1', 1));
+
+    expect(await screen.findByText('bio: back')).toBeTruthy();
+    expect(profileCalls(client)).toBe(2);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('follows the client cache when a profile expires or is evicted', async () => {
+    let bio = 'first';
+    const fetch = vi.fn(async () => new Response(
+      JSON.stringify({ success: true, message: null, data: { id: 'user-3', bio } }),
+      { headers: { 'Content-Type': 'application/json' } }
+    ));
+    const client = createSenseSpaceClient({ token: 't', fetch });
+    const view = render(renderProfile(client, 'user-3'));
+    expect(await screen.findByText('bio: first')).toBeTruthy();
+
+    view.rerender(renderProfile(client, 'user-3'));
+    expect(screen.getByText('bio: first')).toBeTruthy();
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    bio = 'second';
+    client.invalidateUserProfile('user-3');
+    view.rerender(renderProfile(client, 'user-3'));
+
+    expect(await screen.findByText('bio: second')).toBeTruthy();
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('shows profiles updated through the client', async () => {
+    const client = createMockClient({ profiles: [{ id: 'user-2', bio: 'old' }] });
+    render(renderProfile(client, 'user-2'));
+    expect(await screen.findByText('bio: old')).toBeTruthy();
+
+    await act(() => client.updateUserProfile('user-2', { bio: 'new' }));
+
+    expect(screen.getByText('bio: new')).toBeTruthy();
+    expect(profileCalls(client)).toBe(1);
+  });
+});
@@ -0,0 +1,195 @@
+import { useCallback, useContext, useEffect, useReducer } from 'react';
+import { SenseSpaceClient, UserProfile, RequestOptions, UseSuspenseUserProfileReturn } from './types';
+import { SenseSpaceError, toSenseSpaceError } from './errors';
+import { SenseSpaceContext } from './context';
+import { DEFAULT_CACHE_OPTIONS } from './cache';
+
+type Resource<T> =
+  | { status: 'pending'; promise: Promise<void> }
+  | { status: 'success'; data: T }
+  | { status: 'error'; error: SenseSpaceError; expiresAt: number };
+
+// React retries a failed render, sometimes in a later task, before the error boundary
+// shows; a failure is rethrown this long (ms) so those retries do not load again
+const ERROR_RETENTION = 1000;
+
+// Resources live outside components so suspended renders, which keep no state,
+// find the same in-flight promise when React retries them. Loaded profiles are read
+// back from the client cache so they follow its TTL and eviction; only clients
+// without one (see peekUserProfile) keep them here.
+const resources = new WeakMap<SenseSpaceClient, Map<string, Resource<UserProfile>>>();
+
+function resourcesFor(client: SenseSpaceClient): Map<string, Resource<UserProfile>> {
+  let map = resources.get(client);
+  if (!map) {
+    const created = new Map<string, Resource<UserProfile>>();
+    // Keep loaded profiles current when the client learns of a newer one, e.g. after an update
+    client.onProfileUpdated?.((userId, profile) => {
+      if (created.has(userId)) {
+        settleProfile(client, created, userId, profile);
+      }
+    });
+    resources.set(client, created);
+    map = created;
+  }
+  return map;
+}
+
+/**
+ * Store a resource as the most recently used, evicting the oldest beyond the cache's default size
+ */
+function setResource(map: Map<string, Resource<UserProfile>>, userId: string, resource: Resource<UserProfile>): void {
+  map.delete(userId);
+  map.set(userId, resource);
+
+  while (map.size > DEFAULT_CACHE_OPTIONS.maxEntries) {
+    map.delete(map.keys().next().value as string);
+  }
+}
+
+/**
+ * Hand a loaded profile to the client cache, or keep it here when the client does not cache it
+ */
+function settleProfile(
+  client: SenseSpaceClient,
+  map: Map<string, Resource<UserProfile>>,
+  userId: string,
+  profile: UserProfile
+): void {
+  if (client.peekUserProfile?.(userId)) {
+    map.delete(userId);
+  } else {
+    setResource(map, userId, { status: 'success', data: profile });
+  }
+}
+
+function loadProfileResource(
+  client: SenseSpaceClient,
+  userId: string,
+  options?: RequestOptions
+): Resource<UserProfile> {
+  const map = resourcesFor(client);
+
+  const promise = client.getUserProfile(userId, options).then(
+    response => {
+      if (map.get(userId) !== resource) {
+        return;
+      }
+      if (response.success && response.data) {
+        settleProfile(client, map, userId, response.data);
+      } else {
+        setResource(map, userId, {
+          status: 'error',
+          error: response.error || new SenseSpaceError({
+            kind: 'not_found',
+            message: response.message || 'User profile not found'
+          }),
+          expiresAt: Date.now() + ERROR_RETENTION
+        });
+      }
+    },
+    error => {
+      if (map.get(userId) === resource) {
+        setResource(map, userId, { status: 'error', error: toSenseSpaceError(error), expiresAt: Date.now() + ERROR_RETENTION });
+      }
+    }
+  );
+
+  const resource: Resource<UserProfile> = { status: 'pending', promise };
+  setResource(map, userId, resource);
+  return resource;
+}
+
+function readProfileResource(
+  client: SenseSpaceClient,
+  userId: string,
+  options?: RequestOptions
+): Resource<UserProfile> {
+  const resource = resourcesFor(client).get(userId);
+  if (resource && (resource.status !== 'error' || Date.now() < resource.expiresAt)) {
+    return resource;
+  }
+
+  const cached = client.peekUserProfile?.(userId);
+  return cached ? { status: 'success', data: cached } : loadProfileResource(client, userId, options);
+}
+
+/**
+ * Start loading a profile ahead of render, e.g. in a route loader or during SSR
+ */
+export function preloadUserProfile(client: SenseSpaceClient, userId: string, options?: RequestOptions): void {
+  readProfileResource(client, userId, options);
+}
+
+/**
+ * Drop suspense resources for one user, or for every user of the client.
+ * Profiles the client itself caches stay until invalidated there.
+ */
+export function clearSuspenseCache(client: SenseSpaceClient, userId?: string): void {
+  if (userId === undefined) {
+    resources.get(client)?.clear();
+  } else {
+    resources.get(client)?.delete(userId);
+  }
+}
+
+/**
+ * Suspense variant of useUserProfile. Suspends while the profile loads and throws a
+ * SenseSpaceError for the nearest error boundary on failure, so `data` is always set.
+ */
+export function useSuspenseUserProfile(userId: string, options?: RequestOptions): UseSuspenseUserProfileReturn;
+export function useSuspenseUserProfile(
+  client: SenseSpaceClient,
+  userId: string,
+  options?: RequestOptions
+): UseSuspenseUserProfileReturn;
+export function useSuspenseUserProfile(
+  ...args: [string, RequestOptions?] | [SenseSpaceClient, string, RequestOptions?]
+): UseSuspenseUserProfileReturn {
+  const contextClient = useContext(SenseSpaceContext);
+  const [client, userId, options] = typeof args[0] === 'string'
+    ? [contextClient, args[0], args[1] as RequestOptions | undefined]
+    : [args[0], args[1] as string, args[2]];
+  const [, forceRender] = useReducer((count: number) => count + 1, 0);
+
+  if (!client) {
+    throw new Error('useSuspenseUserProfile(userId) must be used within a <SenseSpaceProvider>; pass a client explicitly otherwise');
+  }
+
+  const refetch = useCallback(() => {
+    loadProfileResource(client, userId, { ...options, cache: 'no-cache' });
+    forceRender();
+  }, [client, userId, JSON.stringify(options)]);
+
+  // Show profiles updated through the client without suspending again
+  useEffect(() => {
+    if (!client.onProfileUpdated || !userId) {
+      return;
+    }
+
+    return client.onProfileUpdated((updatedUserId, profile) => {
+      if (updatedUserId === userId) {
+        settleProfile(client, resourcesFor(client), userId, profile);
+        forceRender();
+      }
+    });
+  }, [client, userId]);
+
+  if (!userId) {
+    throw new SenseSpaceError({ kind: 'invalid_request', message: 'User ID is required' });
+  }
+
+  const resource = readProfileResource(client, userId, options);
+
+  if (resource.status === 'pending') {
+    throw resource.promise;
+  }
+  if (resource.status === 'error') {
+    throw resource.error;
+  }
+
+  return {
+    data: resource.data,
+    refetch
+  };
+}
@@ -0,0 +1,22 @@
+import { createElement, useMemo, ReactNode } from 'react';
+import { HostBridge, MockProfile, SenseSpaceClient } from './types';
+import { SenseSpaceProvider } from './context';
+import { createMockClient } from './mock';
+
+export interface SenseSpaceTestProviderProps {
+  client?: SenseSpaceClient; // Defaults to a mock client serving `profiles`
+  profiles?: MockProfile[];
+  bridge?: HostBridge;
+  children?: ReactNode;
+}
+
+/**
+ * SenseSpaceProvider for tests: wraps components in a mock client (or the given one)
+ * so hooks like useUserProfile run offline
+ */
+export function SenseSpaceTestProvider({ client, profiles, bridge, children }: SenseSpaceTestProviderProps) {
+  // Created once per mount so fixtures set on the client in a test are not lost on re-render
+  const value = useMemo(() => client || createMockClient({ profiles }), [client]);
+
+  return createElement(SenseSpaceProvider, { client: value, bridge }, children);
+}
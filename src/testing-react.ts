@@ -0,0 +1,4 @@
+// React testing exports
+// Import this file in component tests alongside './testing'
+export { SenseSpaceTestProvider } from './test-provider';
+export type { SenseSpaceTestProviderProps } from './test-provider';
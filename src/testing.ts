@@ -0,0 +1,16 @@
+// Testing exports
+// Import this file in unit tests; React components use './testing/react'
+export { createMockClient, createMockHostBridge, createMockProfile } from './mock';
+
+export type {
+  MockProfile,
+  MockCall,
+  MockClientMethod,
+  MockClientOptions,
+  MockFailureOptions,
+  MockRequestHandler,
+  MockSenseSpaceClient,
+  MockBridgeHandler,
+  MockHostBridgeOptions,
+  MockHostBridge
+} from './types';
@@ -0,0 +1,58 @@
+/**
+ * Token inspection utilities. Tokens are decoded without verifying signatures,
+ * which is fine for client-side expiry checks but never for trusting claims.
+ */
+import { DecodedJWT, TokenInfo, TokenInspectionOptions } from './types';
+import { splitJWT } from './jwt';
+
+const DEFAULT_CLOCK_SKEW = 30000; // 30 seconds
+
+/**
+ * Decode a JWT's header and claims without verification. Returns null for non-JWT tokens.
+ */
+export function decodeJWT(token: string): DecodedJWT | null {
+  const parts = splitJWT(token.replace(/^Bearer\s+/i, ''));
+  return parts ? { header: parts.header, payload: parts.payload } : null;
+}
+
+/**
+ * Expiry of a JWT in milliseconds since epoch, or null if it has no `exp` claim
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJWT(token)?.payload.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+/**
+ * Inspect a token's format and expiry. Opaque (non-JWT) tokens report an unknown expiry.
+ */
+export function inspectToken(token: string, options: TokenInspectionOptions = {}): TokenInfo {
+  const { clockSkew = DEFAULT_CLOCK_SKEW, now = Date.now() } = options;
+  const decoded = token ? decodeJWT(token) : null;
+  const expiresAt = typeof decoded?.payload.exp === 'number' ? decoded.payload.exp * 1000 : null;
+  // Treat tokens as expiring `clockSkew` early so requests don't race the server's clock
+  const expiresIn = expiresAt === null ? null : expiresAt - now - clockSkew;
+
+  return {
+    isJWT: !!decoded,
+    header: decoded?.header || null,
+    claims: decoded?.payload || null,
+    expiresAt,
+    expiresIn,
+    expired: expiresIn !== null && expiresIn <= 0
+  };
+}
+
+/**
+ * Check whether a token is expired, allowing for clock skew. Opaque tokens are never reported expired.
+ */
+export function isTokenExpired(token: string, options?: TokenInspectionOptions): boolean {
+  return inspectToken(token, options).expired;
+}
+
+/**
+ * Milliseconds until a token expires (after clock skew), or null if unknown
+ */
+export function getTimeToExpiry(token: string, options?: TokenInspectionOptions): number | null {
+  return inspectToken(token, options).expiresIn;
+}
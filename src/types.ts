@@ -1,9 +1,21 @@
+import type { SenseSpaceError } from './errors';
+
 // Core SDK types
 export interface SenseSpaceConfig {
-  token: string;
-  endpoint?: string;
+  token?: string; // Static token; required unless an auth provider is given
+  auth?: AuthProvider;
+  endpoint?: string; // Host name, or a full http(s) URL
+  retry?: RetryPolicy | false;
+  cache?: CacheOptions | false;
+  batch?: BatchOptions;
+  middleware?: Middleware[];
+  fetch?: FetchFunction; // Defaults to the global fetch (browsers, Node 18+, edge runtimes)
+  tokenExpiry?: TokenExpiryOptions | false; // Check JWT expiry before sending; false sends tokens as-is
+  validation?: ValidationOptions | ValidationMode | false; // Validate response data at runtime (default: off)
 }
 
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+
 export interface UserProfile {
   id: string;
   email: string | null;
@@ -14,34 +26,688 @@ export interface UserProfile {
   [key: string]: any;
 }
 
+// Fields a user may change about themselves
+export interface UserProfileUpdate {
+  displayName?: string;
+  bio?: string;
+  email?: string | null;
+  avatarUrl?: string | null; // Use uploadAvatar to upload a new image
+}
+
+export interface UpdateUserProfileOptions extends RequestOptions {
+  // Version the edit is based on (e.g. profile.version or profile.updatedAt), sent as If-Match.
+  // The update fails with a 'conflict' error if the profile changed since.
+  expectedVersion?: string | number;
+}
+
+export interface UploadProgress {
+  loaded: number; // Bytes sent
+  total: number | null; // Null when the size is unknown
+  percent: number | null;
+}
+
+export interface UploadAvatarOptions extends RequestOptions {
+  fileName?: string; // Defaults to the File's name, or 'avatar'
+  onProgress?: (progress: UploadProgress) => void;
+}
+
 export interface APIResponse<T = any> {
   success: boolean;
   message: string | null;
   data?: T;
-  error?: string; // Keep error field for failure cases
+  error?: SenseSpaceError; // Keep error field for failure cases
 }
 
+// Error types
+export type SenseSpaceErrorKind =
+  | 'timeout'
+  | 'cancelled'
+  | 'network'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limited'
+  | 'server'
+  | 'http'
+  | 'parse'
+  | 'invalid_request'
+  | 'host' // The host container reported a failure
+  | 'unavailable' // Not running inside a SenseSpace host
+  | 'user_rejected' // The user declined a wallet prompt
+  | 'validation' // The response data did not match the expected shape
+  | 'conflict' // The resource changed since the version the request was based on (409/412)
+  | 'unknown';
+
 export interface RequestOptions {
   timeout?: number;
   headers?: Record<string, string>;
+  retry?: RetryPolicy | false;
+  cache?: 'default' | 'no-cache'; // 'no-cache' skips cached data but still stores the result
+  signal?: AbortSignal; // Aborting resolves the request with a 'cancelled' error
+}
+
+// Middleware types
+export interface RequestContext {
+  method: HTTPMethod;
+  path: string;
+  url: string; // Fully resolved URL including query string; may be rewritten
+  headers: Record<string, string>;
+  body?: unknown;
+  attempt: number; // 1 for the first attempt, incremented on retries
+  meta: Record<string, unknown>; // Scratch space shared between phases of one attempt
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface Middleware {
+  name?: string;
+  // Return a new context to modify the request, or an APIResponse to short-circuit it
+  onRequest?: (context: RequestContext) => MaybePromise<RequestContext | APIResponse<any> | void>;
+  // Return a new response to replace a successful one
+  onResponse?: (response: APIResponse<any>, context: RequestContext) => MaybePromise<APIResponse<any> | void>;
+  // Return a response to recover from a failure
+  onError?: (error: SenseSpaceError, context: RequestContext) => MaybePromise<APIResponse<any> | void>;
+}
+
+// Cache types
+export interface CacheOptions {
+  ttl?: number; // How long a response is fresh, in milliseconds
+  staleWhileRevalidate?: number; // How long after ttl a stale response is served while refetching
+  maxEntries?: number; // Least recently used entries are evicted beyond this size
+  persist?: PersistOptions | boolean; // Keep profiles in persistent storage across sessions (default: off)
+}
+
+// Persistent cache types
+export interface PersistedEntry<T = unknown> {
+  version: number; // Cache format/app version the entry was written with
+  storedAt: number; // Milliseconds since epoch
+  value: T;
+}
+
+export interface StorageAdapter {
+  get: (key: string) => Promise<PersistedEntry | undefined>;
+  set: (key: string, entry: PersistedEntry) => Promise<void>; // Reject with a QuotaExceededError when full
+  delete: (key: string) => Promise<void>;
+  clear: () => Promise<void>; // Remove only this adapter's entries
+  keys: () => Promise<string[]>;
+}
+
+export interface PersistOptions {
+  storage?: StorageAdapter | 'auto' | 'indexeddb' | 'localstorage'; // 'auto' prefers IndexedDB (default)
+  namespace?: string; // Database name / key prefix (default: 'sensespace')
+  version?: number; // Bump to discard entries written by older releases (default: 1)
+  maxAge?: number; // Milliseconds a persisted profile may be used (default: 7 days)
+  serveStale?: boolean; // Return a persisted profile at once and revalidate in the background (default: false)
+  readTimeout?: number; // Milliseconds to wait for a storage read before treating it as a miss (default: 1000)
+}
+
+// Batch lookup types
+export interface BatchOptions {
+  maxConcurrency?: number; // Maximum profile requests in flight for one batch
+}
+
+export type UserProfileResult =
+  | { status: 'found'; profile: UserProfile }
+  | { status: 'not_found' }
+  | { status: 'failed'; error: SenseSpaceError };
+
+// Retry types
+export type RetryableErrorKind = 'timeout' | 'network';
+
+export interface RetryPolicy {
+  maxAttempts?: number; // Total attempts including the first one
+  baseDelay?: number; // Initial backoff delay in milliseconds
+  maxDelay?: number; // Upper bound for a single backoff delay in milliseconds
+  jitter?: boolean | number; // true for full jitter, or the randomized fraction (0-1)
+  retryOnStatus?: number[];
+  retryOnErrors?: RetryableErrorKind[];
+  retryMethods?: HTTPMethod[];
+  respectRetryAfter?: boolean; // Honor Retry-After on 429/503 responses
+}
+
+// Authentication types
+export interface AuthProvider {
+  // Called before every request; return null to send the request unauthenticated
+  getToken: () => string | null | Promise<string | null>;
+  // Called to refresh credentials after a 401 (the request is replayed once) or when the
+  // token is expired or about to expire; return false to signal the refresh failed
+  onUnauthorized?: (error: SenseSpaceError) => boolean | void | Promise<boolean | void>;
+}
+
+// Token inspection types
+export interface DecodedJWT {
+  header: Record<string, any>;
+  payload: Record<string, any>;
+}
+
+export interface TokenInfo {
+  isJWT: boolean;
+  header: Record<string, any> | null;
+  claims: Record<string, any> | null;
+  expiresAt: number | null; // Milliseconds since epoch, null when unknown
+  expiresIn: number | null; // Milliseconds left after clock skew, null when unknown
+  expired: boolean;
+}
+
+export interface TokenInspectionOptions {
+  clockSkew?: number; // Milliseconds a token is considered expired early (default: 30000)
+  now?: number; // Milliseconds since epoch, for testing
+}
+
+export interface TokenExpiryOptions extends TokenInspectionOptions {
+  refreshBefore?: number; // Refresh via auth.onUnauthorized when this close to expiry, in ms (default: 60000)
+}
+
+// Generic request types
+export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+// 'json' expects the standard API envelope, 'auto' picks by Content-Type
+export type ResponseBodyType = 'json' | 'text' | 'blob' | 'auto';
+
+export interface RequestConfig<T = any> extends RequestOptions {
+  query?: QueryParams;
+  body?: unknown; // Serialized as JSON, except FormData, Blob, ArrayBuffer and URLSearchParams which are sent as-is
+  responseType?: ResponseBodyType;
+  schema?: ResponseSchema<T>; // Validate `data` of a successful response
+  onUploadProgress?: (progress: UploadProgress) => void; // Uses XMLHttpRequest in browsers to report progress
+}
+
+// Validation types
+export interface ValidationIssue {
+  path: string; // Dotted path to the offending field, '' for the root
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+// A validator function, or any schema with a zod-style safeParse
+export type ResponseSchema<T> =
+  | ((data: unknown) => ValidationResult<T>)
+  | { safeParse: (data: unknown) => { success: boolean; data?: T; error?: unknown } };
+
+// 'strict' fails the response, 'lenient' reports issues and passes the data through
+export type ValidationMode = 'strict' | 'lenient';
+
+export interface ValidationOptions {
+  mode?: ValidationMode; // Default: 'strict'
+  userProfile?: ResponseSchema<UserProfile> | false; // Replace the built-in profile validator, or turn it off
+  onIssues?: (issues: ValidationIssue[], context: { method: HTTPMethod; path: string }) => void; // Default: console.warn in lenient mode
+}
+
+// Pagination types
+// One page of a list endpoint. Cursor-based lists set `nextCursor`; offset-based lists set `offset`.
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string | null; // Cursor of the following page; null or absent on the last page
+  offset?: number; // Position of the first item in the whole list
+  limit?: number;
+  total?: number; // Size of the whole list, when the server knows it
+  hasMore?: boolean;
+}
+
+// Query parameters selecting a page; null selects the first page
+export interface PageParam {
+  cursor?: string;
+  offset?: number;
+}
+
+export interface PaginateConfig<T> extends RequestOptions {
+  query?: QueryParams; // Sent with every page, alongside `cursor`/`offset` and `limit`
+  limit?: number; // Page size
+  maxPages?: number; // Stop after this many pages
+  schema?: ResponseSchema<Page<T>>; // Replaces the built-in page shape check
 }
 
 // React Hook types
+export interface UseUserProfileOptions extends RequestOptions {
+  enabled?: boolean;
+  refetchInterval?: number;
+}
+
 export interface UseUserProfileState {
   data: UserProfile | null;
-  loading: boolean;
-  error: string | null;
+  userId: string | null; // The user ID `data` belongs to; may lag behind while a new user loads
+  loading: boolean; // Fetching with no data to show yet
+  isFetching: boolean; // Any request in flight, including background refetches
+  error: SenseSpaceError | null;
 }
 
 export interface UseUserProfileReturn extends UseUserProfileState {
   refetch: () => Promise<void>;
 }
 
+export interface UseLaunchContextReturn {
+  data: LaunchContext | null;
+  loading: boolean;
+  error: SenseSpaceError | null;
+}
+
+export interface UseCurrentUserReturn extends UseUserProfileReturn {
+  launchContext: LaunchContext | null;
+}
+
+// State of a hook that runs one async call on demand, e.g. a wallet prompt or a mutation
+export interface AsyncActionState<T> {
+  data: T | null;
+  loading: boolean;
+  error: SenseSpaceError | null;
+}
+
+// `data` is the profile returned by the last successful update
+export interface UseUpdateUserProfileReturn extends AsyncActionState<UserProfile> {
+  updateUserProfile: (userId: string, patch: UserProfileUpdate, options?: UpdateUserProfileOptions) => Promise<APIResponse<UserProfile>>;
+  uploadAvatar: (userId: string, file: Blob, options?: UploadAvatarOptions) => Promise<APIResponse<UserProfile>>;
+  progress: UploadProgress | null; // Progress of the current avatar upload
+  reset: () => void;
+}
+
+export interface UseSuspenseUserProfileReturn {
+  data: UserProfile;
+  refetch: () => void; // Suspends again until the fresh profile arrives
+}
+
+// Generic query and mutation hook types
+// Identifies a query. Invalidating a key also invalidates every key that starts with it.
+export type QueryKey = readonly unknown[];
+
+export interface QueryFunctionContext {
+  client: SenseSpaceClient;
+  queryKey: QueryKey;
+  signal: AbortSignal; // Aborted when the query is refetched, cancelled or no longer used
+  cache: 'default' | 'no-cache'; // 'no-cache' for refetches and invalidations; pass it on to client calls
+}
+
+export type QueryFunction<T> = (context: QueryFunctionContext) => Promise<APIResponse<T>>;
+
+export interface QueryState<T> {
+  data: T | null; // Data from the last successful fetch, kept while refetching and after errors
+  error: SenseSpaceError | null;
+  isFetching: boolean;
+  updatedAt: number; // When data was last set; 0 before the first success or after invalidation
+}
+
+export interface UseSenseSpaceQueryOptions {
+  client?: SenseSpaceClient; // Defaults to the client from SenseSpaceProvider
+  enabled?: boolean;
+  staleTime?: number; // How long data counts as fresh in milliseconds (default: 0, refetch on mount)
+  cacheTime?: number; // How long data is kept once no component uses it (default: 5 minutes)
+  refetchInterval?: number;
+}
+
+export interface UseSenseSpaceQueryReturn<T> {
+  data: T | null;
+  loading: boolean; // No data to show yet
+  isFetching: boolean; // Any fetch in flight, including background refetches
+  error: SenseSpaceError | null;
+  refetch: () => Promise<void>;
+}
+
+export interface InfiniteQueryFunctionContext extends QueryFunctionContext {
+  pageParam: PageParam | null; // Spread into the request query; null for the first page
+}
+
+export type InfiniteQueryFunction<T> = (context: InfiniteQueryFunctionContext) => Promise<APIResponse<Page<T>>>;
+
+export interface InfiniteData<T> {
+  pages: Page<T>[];
+  pageParams: (PageParam | null)[];
+}
+
+export interface UseSenseSpaceInfiniteQueryOptions<T> extends UseSenseSpaceQueryOptions {
+  getNextPageParam?: (lastPage: Page<T>, pages: Page<T>[]) => PageParam | null; // Default: from nextCursor or offset
+  getItemKey?: (item: T) => string | number; // Drops items repeated across pages when merging
+}
+
+export interface UseSenseSpaceInfiniteQueryReturn<T> extends Omit<UseSenseSpaceQueryReturn<InfiniteData<T>>, 'data'> {
+  pages: Page<T>[];
+  items: T[]; // Items of all loaded pages, in order
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => Promise<void>;
+}
+
+export type MutationFunction<TData, TVariables> = (variables: TVariables, client: SenseSpaceClient) => Promise<APIResponse<TData>>;
+
+// Applied to cached query data before the mutation is sent, and rolled back if it fails
+export interface OptimisticUpdate<TVariables, T = any> {
+  queryKey: QueryKey;
+  update: (current: T | null, variables: TVariables) => T;
+}
+
+export interface UseSenseSpaceMutationOptions<TData, TVariables> {
+  client?: SenseSpaceClient; // Defaults to the client from SenseSpaceProvider
+  optimistic?: OptimisticUpdate<TVariables>[];
+  invalidates?: QueryKey[] | ((data: TData | undefined, variables: TVariables) => QueryKey[]); // Refetched after success
+  onSuccess?: (data: TData | undefined, variables: TVariables) => void;
+  onError?: (error: SenseSpaceError, variables: TVariables) => void;
+  onSettled?: (response: APIResponse<TData>, variables: TVariables) => void;
+}
+
+export interface UseSenseSpaceMutationReturn<TData, TVariables> extends AsyncActionState<TData> {
+  mutate: (variables: TVariables) => Promise<APIResponse<TData>>;
+  reset: () => void;
+}
+
+// Host bridge types
+export interface HostBridgeOptions {
+  allowedOrigins: string[]; // Exact origins the host may post from; '*' is rejected
+  target?: Window; // Defaults to window.parent
+  targetOrigin?: string; // Defaults to the first allowed origin
+  timeout?: number; // Default request timeout in milliseconds
+  onError?: (error: unknown, event: string) => void; // Called when an event handler throws
+}
+
+export interface HostBridgeRequestOptions {
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface HostContext {
+  user?: { id: string; walletAddress?: string };
+  theme?: 'light' | 'dark';
+  locale?: string;
+  platform?: string;
+  // Launch data, used by getLaunchContext when the URL carries none
+  token?: string;
+  startParam?: string;
+  authDate?: number; // Unix seconds
+  signature?: string; // HMAC over the launch parameters, hex
+  [key: string]: any;
+}
+
+export interface HostEventMap {
+  themeChanged: { theme: 'light' | 'dark' };
+  localeChanged: { locale: string };
+  contextChanged: HostContext;
+}
+
+export type HostMessage =
+  | { source: 'sensespace-host'; type: 'response'; id: string; result?: any; error?: { code?: string | number; message?: string } }
+  | { source: 'sensespace-host'; type: 'event'; event: string; data?: any };
+
+export interface HostBridge {
+  readonly isAvailable: boolean;
+  request: <T = any>(method: string, params?: unknown, options?: HostBridgeRequestOptions) => Promise<APIResponse<T>>;
+  getContext: (options?: HostBridgeRequestOptions) => Promise<APIResponse<HostContext>>;
+  on: {
+    <K extends keyof HostEventMap>(event: K, handler: (data: HostEventMap[K]) => void): () => void;
+    (event: string, handler: (data: any) => void): () => void;
+  };
+  destroy: () => void;
+}
+
+// Wallet types
+export interface WalletAccount {
+  address: string;
+  chainId?: number | string;
+}
+
+export interface SignMessageRequest {
+  message: string;
+  encoding?: 'utf8' | 'hex'; // Default: utf8
+  address?: string; // Defaults to the user's wallet
+}
+
+export interface SignMessageResult {
+  signature: string;
+  address: string;
+}
+
+export interface TypedDataField {
+  name: string;
+  type: string;
+}
+
+// EIP-712 typed data
+export interface TypedData {
+  domain: Record<string, unknown>;
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+export interface SignTypedDataRequest {
+  typedData: TypedData;
+  address?: string;
+}
+
+export interface SignTypedDataResult {
+  signature: string;
+  address: string;
+}
+
+export interface TransactionRequest {
+  to?: string;
+  value?: string; // Amount in the chain's smallest unit, as a decimal or hex string
+  data?: string;
+  chainId?: number | string;
+  gasLimit?: string;
+  [key: string]: unknown;
+}
+
+export interface TransactionResult {
+  hash: string;
+  chainId?: number | string;
+}
+
+export interface SenseSpaceWallet {
+  getAccount: (options?: HostBridgeRequestOptions) => Promise<APIResponse<WalletAccount>>;
+  signMessage: (request: SignMessageRequest, options?: HostBridgeRequestOptions) => Promise<APIResponse<SignMessageResult>>;
+  signTypedData: (request: SignTypedDataRequest, options?: HostBridgeRequestOptions) => Promise<APIResponse<SignTypedDataResult>>;
+  sendTransaction: (request: TransactionRequest, options?: HostBridgeRequestOptions) => Promise<APIResponse<TransactionResult>>;
+}
+
+// Sign-in with wallet types (EIP-4361 messages)
+export interface SignInMessageFields {
+  domain: string; // Host asking for the sign-in, e.g. 'app.example.com'
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string; // ISO 8601
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export interface SignInRequest {
+  nonce: string; // Issued by your backend, see generateNonce
+  userId?: string; // SenseSpace user id to bind to the wallet
+  domain?: string; // Defaults to window.location.host
+  uri?: string; // Defaults to window.location.origin
+  statement?: string;
+  address?: string; // Defaults to the host wallet's account
+  chainId?: number; // Defaults to the host wallet's chain, then 1
+  expiresIn?: number; // Milliseconds the signed message stays valid (default: 600000)
+  requestId?: string;
+  resources?: string[];
+}
+
+export interface SignInResult {
+  message: string; // Send message and signature to your backend
+  signature: string;
+  address: string;
+}
+
+export interface SignInVerificationOptions {
+  domain: string | string[]; // Domains your mini-app is served from
+  nonce?: string; // The nonce issued for this session
+  verifyNonce?: (nonce: string) => boolean | Promise<boolean>; // Or check (and consume) it yourself
+  userId?: string; // Require the message to bind this SenseSpace user id
+  address?: string; // Require this wallet, e.g. the profile's walletAddress
+  maxAge?: number; // Seconds a message stays valid after issuedAt (default: 600)
+  clockSkew?: number; // Tolerated clock difference in seconds (default: 60)
+  now?: () => number; // Milliseconds since epoch, for testing
+  verifySignature?: (message: string, signature: string, address: string) => boolean | Promise<boolean>; // Fallback for contract wallets (EIP-1271)
+}
+
+export interface VerifiedSignIn {
+  address: string; // EIP-55 checksummed
+  userId?: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  fields: SignInMessageFields;
+}
+
+// Launch context types
+export interface LaunchContext {
+  userId: string;
+  token?: string; // Session token for the SDK client
+  startParam?: string; // Deep-link payload the mini-app was opened with
+  platform?: string;
+  theme?: 'light' | 'dark';
+  authDate?: number; // Unix seconds when the host signed the launch data
+  signature?: string;
+  raw: string; // Canonical launch parameter string, to send to a backend for verification
+  source: 'url' | 'host';
+}
+
+export interface LaunchContextOptions {
+  url?: string; // Defaults to window.location.href
+  bridge?: HostBridge; // Asked for launch data when the URL has none; React hooks default to the provider's
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+// Launch verification types (server entry point)
+export type JWTAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export interface LaunchIdentity {
+  userId: string;
+  authDate: number; // Unix seconds when the launch data was signed
+  platform?: string;
+  startParam?: string;
+  walletAddress?: string;
+  claims?: Record<string, any>; // All JWT claims, for launch tokens
+}
+
+export interface ReplayStore {
+  // Record `key` until `expiresAt` (Unix seconds) and return true, or return false if it is
+  // already recorded. Must check and record in one atomic step (e.g. Redis `SET key 1 NX EXAT`).
+  add: (key: string, expiresAt: number) => boolean | Promise<boolean>;
+}
+
+interface LaunchVerificationBaseOptions {
+  maxAge?: number; // Seconds launch data stays valid after signing (default: 86400)
+  clockSkew?: number; // Tolerated clock difference in seconds (default: 60)
+  replayStore?: ReplayStore; // Reject launch data that was already used
+  now?: () => number; // Milliseconds since epoch, for testing
+  crypto?: Crypto; // Defaults to globalThis.crypto
+}
+
+export interface LaunchVerificationOptions extends LaunchVerificationBaseOptions {
+  secret: string; // Shared HMAC secret issued to the mini-app
+}
+
+export interface LaunchTokenVerificationOptions extends LaunchVerificationBaseOptions {
+  secret?: string; // For HS256
+  publicKey?: CryptoKey | JsonWebKey | string; // For RS256/ES256; a string is a PEM SPKI key
+  algorithms?: JWTAlgorithm[];
+  issuer?: string;
+  audience?: string;
+}
+
+// Testing types (testing entry point)
+export type MockProfile = Partial<UserProfile> & { id: string };
+
+export type MockClientMethod =
+  | 'getUserProfile'
+  | 'getUserProfiles'
+  | 'request'
+  | 'updateUserProfile'
+  | 'uploadAvatar'
+  | 'invalidateUserProfile'
+  | 'clearCache';
+
+export interface MockCall {
+  method: MockClientMethod;
+  args: unknown[];
+}
+
+// Return the response data, or a full APIResponse (anything with a boolean `success`)
+export type MockRequestHandler = (
+  config: RequestConfig,
+  request: { method: HTTPMethod; path: string }
+) => unknown | Promise<unknown>;
+
+export interface MockFailureOptions {
+  times?: number; // Number of calls that fail (default: 1)
+  method?: 'getUserProfile' | 'request' | 'updateUserProfile' | 'uploadAvatar'; // Default: any request
+}
+
+export interface MockClientOptions {
+  profiles?: MockProfile[];
+  routes?: Record<string, MockRequestHandler>; // Keyed by 'METHOD /path', e.g. 'GET /api/settings'
+  latency?: number; // Milliseconds before each response (default: 0)
+}
+
+export interface MockSenseSpaceClient extends SenseSpaceSDKClient {
+  readonly calls: MockCall[];
+  setProfile: (profile: MockProfile) => void;
+  removeProfile: (userId: string) => void;
+  route: (method: HTTPMethod, path: string, handler: MockRequestHandler) => void;
+  failNext: (error: SenseSpaceError | SenseSpaceErrorKind, options?: MockFailureOptions) => void;
+  setLatency: (latency: number) => void;
+  callsTo: (method: MockClientMethod) => MockCall[];
+  // Throw when the method was not called (the given number of times, or with arguments starting with `with`)
+  assertCalled: (method: MockClientMethod, expected?: { times?: number; with?: unknown[] }) => void;
+  assertNotCalled: (method: MockClientMethod) => void;
+  reset: () => void; // Forget recorded calls and scripted failures
+}
+
+// Return the result, or throw `{ code, message }` to reply with a host error
+export type MockBridgeHandler = (params: unknown) => unknown | Promise<unknown>;
+
+export interface MockHostBridgeOptions {
+  context?: HostContext;
+  handlers?: Record<string, MockBridgeHandler>; // Keyed by bridge method, e.g. 'wallet_signMessage'
+  available?: boolean; // Default: true
+  latency?: number; // Milliseconds before each reply (default: 0)
+}
+
+export interface MockHostBridge extends HostBridge {
+  readonly calls: Array<{ method: string; params?: unknown }>;
+  handle: (method: string, handler: MockBridgeHandler) => void;
+  setContext: (context: HostContext) => void; // Also emits 'contextChanged'
+  emit: {
+    <K extends keyof HostEventMap>(event: K, data: HostEventMap[K]): void;
+    (event: string, data?: unknown): void;
+  };
+  reset: () => void; // Forget recorded calls
+}
+
 // SDK Client interface
 export interface SenseSpaceClient {
   getUserProfile: (userId: string, options?: RequestOptions) => Promise<APIResponse<UserProfile>>;
+  // Required: query and mutation functions receive the client and call it for custom endpoints
+  request: <T = any>(method: HTTPMethod, path: string, config?: RequestConfig<T>) => Promise<APIResponse<T>>;
+  // Optional so hand-written clients keep compiling; hooks report a missing method as an error
+  getUserProfiles?: (userIds: string[], options?: RequestOptions) => Promise<Map<string, UserProfileResult>>;
+  updateUserProfile?: (userId: string, patch: UserProfileUpdate, options?: UpdateUserProfileOptions) => Promise<APIResponse<UserProfile>>;
+  uploadAvatar?: (userId: string, file: Blob, options?: UploadAvatarOptions) => Promise<APIResponse<UserProfile>>;
+  // Called when the client learns of a newer profile, e.g. after an update; returns an unsubscribe function
+  onProfileUpdated?: (listener: (userId: string, profile: UserProfile) => void) => () => void;
+  // Reads a cached profile without loading it; undefined when not cached or caching is disabled
+  peekUserProfile?: (userId: string) => UserProfile | undefined;
+  // GETs a list endpoint page by page; stops after the last page or the first failed response
+  paginate?: <T = any>(path: string, config?: PaginateConfig<T>) => AsyncIterableIterator<APIResponse<Page<T>>>;
+  // Cache controls; clients without a cache can leave them out
+  invalidateUserProfile?: (userId: string) => void;
+  clearCache?: () => void;
 }
 
+// The client returned by createSenseSpaceClient, with every optional member implemented
+export type SenseSpaceSDKClient = Required<SenseSpaceClient>;
+
 // SDK configuration options
 export interface SDKOptions extends RequestOptions {
   endpoint?: string;
@@ -0,0 +1,107 @@
+/**
+ * Request bodies that are sent as-is, and an XMLHttpRequest transport that
+ * reports upload progress (fetch cannot)
+ */
+import { FetchFunction, UploadProgress } from './types';
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Whether a request body is sent without JSON serialization
+ */
+export function isRawBody(body: unknown): body is BodyInit {
+  return (
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body)
+  );
+}
+
+/**
+ * Size of a body in bytes, or null when it cannot be known up front
+ */
+export function getBodySize(body: unknown): number | null {
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return body.size;
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    // Sum of the field contents; multipart boundaries and headers are not counted
+    let size = 0;
+    body.forEach(value => {
+      size += typeof value === 'string' ? new TextEncoder().encode(value).byteLength : value.size;
+    });
+    return size;
+  }
+  return null;
+}
+
+export function toUploadProgress(loaded: number, total: number | null): UploadProgress {
+  return {
+    loaded,
+    total,
+    percent: total ? Math.min(100, Math.round((loaded / total) * 100)) : null
+  };
+}
+
+function parseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  });
+  return headers;
+}
+
+/**
+ * Whether the XMLHttpRequest transport can be used
+ */
+export function canTrackUploadProgress(): boolean {
+  return typeof XMLHttpRequest !== 'undefined';
+}
+
+/**
+ * A fetch-compatible function backed by XMLHttpRequest, so the rest of the
+ * request pipeline (auth, middleware, retries, timeouts) is unchanged
+ */
+export function createXHRFetch(onProgress: (progress: UploadProgress) => void): FetchFunction {
+  return (input, init = {}) => new Promise<Response>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method || 'GET', input);
+    xhr.responseType = 'blob';
+
+    new Headers(init.headers).forEach((value, key) => xhr.setRequestHeader(key, value));
+
+    xhr.upload.onprogress = event => {
+      onProgress(toUploadProgress(event.loaded, event.lengthComputable ? event.total : null));
+    };
+
+    xhr.onload = () => {
+      const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response;
+      resolve(new Response(body, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseHeaders(xhr.getAllResponseHeaders())
+      }));
+    };
+    xhr.onerror = () => reject(new TypeError('Network request failed'));
+
+    const abortError = () => new DOMException('The operation was aborted', 'AbortError');
+    xhr.onabort = () => reject(abortError());
+    if (init.signal) {
+      if (init.signal.aborted) {
+        reject(abortError());
+        return;
+      }
+      init.signal.addEventListener('abort', () => xhr.abort(), { once: true });
+    }
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
@@ -1,6 +1,8 @@
 /**
  * Utility functions for SenseSpace SDK
  */
+import { TokenInspectionOptions } from './types';
+import { inspectToken } from './token';
 
 /**
  * Check if we're running in a browser environment
@@ -24,6 +26,14 @@ export function debounce<T extends (...args: any[]) => any>(
   };
 }
 
+/**
+ * Order strings by UTF-16 code unit, like the default sort of Go, Python and Java.
+ * Unlike localeCompare, the result does not depend on the locale or ICU build.
+ */
+export function compareCodeUnits(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
 /**
  * Validate user ID format
  */
@@ -39,13 +49,17 @@ export function validateUserId(userId: string): boolean {
 /**
  * Create URL with query parameters
  */
-export function createURL(baseURL: string, path: string, params?: Record<string, string>): string {
+export function createURL(
+  baseURL: string,
+  path: string,
+  params?: Record<string, string | number | boolean | null | undefined>
+): string {
   const url = new URL(path, baseURL);
   
   if (params) {
     Object.entries(params).forEach(([key, value]) => {
       if (value !== undefined && value !== null) {
-        url.searchParams.set(key, value);
+        url.searchParams.set(key, String(value));
       }
     });
   }
@@ -84,14 +98,19 @@ export function formatErrorMessage(error: unknown): string {
 }
 
 /**
- * Check if a token looks valid (basic format check)
+ * Check if a token looks valid: JWTs must be well-formed and unexpired,
+ * opaque tokens only get a basic format check
  */
-export function isTokenValid(token: string): boolean {
+export function isTokenValid(token: string, options?: TokenInspectionOptions): boolean {
   if (!token || typeof token !== 'string') {
     return false;
   }
   
-  // Basic check for Bearer token or JWT format
   const trimmed = token.trim();
+  if (trimmed.split('.').length === 3) {
+    const info = inspectToken(trimmed, options);
+    return info.isJWT && !info.expired;
+  }
+
   return trimmed.length > 10; // Minimum reasonable token length
 }
\ No newline at end of file
@@ -0,0 +1,151 @@
+/**
+ * Runtime validation of response data
+ */
+import {
+  APIResponse,
+  HTTPMethod,
+  ResponseSchema,
+  UserProfile,
+  ValidationIssue,
+  ValidationMode,
+  ValidationOptions,
+  ValidationResult
+} from './types';
+import { SenseSpaceError } from './errors';
+
+type IssueReporter = NonNullable<ValidationOptions['onIssues']>;
+
+export interface ResolvedValidation {
+  mode: ValidationMode;
+  userProfile: ResponseSchema<UserProfile> | null;
+  onIssues?: IssueReporter;
+}
+
+const warnIssues: IssueReporter = (issues, { method, path }) => {
+  console.warn(`[SenseSpace] Response from ${method} ${path} failed validation:`, issues);
+};
+
+type FieldCheck = [field: string, expected: string, check: (value: unknown) => boolean];
+
+const USER_PROFILE_FIELDS: FieldCheck[] = [
+  ['id', 'a non-empty string', value => typeof value === 'string' && value.length > 0],
+  ['email', 'a string or null', value => value === null || typeof value === 'string'],
+  ['authType', 'a string', value => typeof value === 'string'],
+  ['createdAt', 'a date string', value => typeof value === 'string' && !Number.isNaN(Date.parse(value))],
+  ['walletAddress', 'a string', value => typeof value === 'string']
+];
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}...` : value}"`;
+  return typeof value;
+}
+
+/**
+ * Built-in validator for UserProfile. Extra fields are allowed and kept.
+ */
+export function validateUserProfile(data: unknown): ValidationResult<UserProfile> {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    return { success: false, issues: [{ path: '', message: `Expected an object, received ${describe(data)}` }] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const issues: ValidationIssue[] = USER_PROFILE_FIELDS
+    .filter(([field, , check]) => !check(record[field]))
+    .map(([field, expected]) => ({
+      path: field,
+      message: `Expected ${expected}, received ${describe(record[field])}`
+    }));
+
+  return issues.length ? { success: false, issues } : { success: true, data: data as UserProfile };
+}
+
+/**
+ * Turn a zod-style error into issues, falling back to its message
+ */
+function issuesFromError(error: unknown): ValidationIssue[] {
+  const issues = (error as { issues?: unknown })?.issues;
+  if (Array.isArray(issues)) {
+    return issues.map(issue => ({
+      path: Array.isArray(issue?.path) ? issue.path.join('.') : '',
+      message: String(issue?.message ?? 'Invalid value')
+    }));
+  }
+  return [{ path: '', message: error instanceof Error ? error.message : 'Invalid value' }];
+}
+
+/**
+ * Run a validator function or safeParse schema against data. A throwing schema counts as a failure.
+ */
+export function runSchema<T>(schema: ResponseSchema<T>, data: unknown): ValidationResult<T> {
+  try {
+    if (typeof schema === 'function') {
+      return schema(data);
+    }
+    const result = schema.safeParse(data);
+    return result.success
+      ? { success: true, data: result.data as T }
+      : { success: false, issues: issuesFromError(result.error) };
+  } catch (error) {
+    return { success: false, issues: issuesFromError(error) };
+  }
+}
+
+/**
+ * Normalize the `validation` config. Returns null when validation is off, in which
+ * case schemas passed per request are still checked strictly.
+ */
+export function resolveValidation(config?: ValidationOptions | ValidationMode | false): ResolvedValidation | null {
+  if (!config) {
+    return null;
+  }
+
+  const options = typeof config === 'string' ? { mode: config } : config;
+  return {
+    mode: options.mode || 'strict',
+    userProfile: options.userProfile === false ? null : options.userProfile || validateUserProfile,
+    onIssues: options.onIssues
+  };
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Check the data of a successful response. Strict mode turns a mismatch into a
+ * 'validation' error; lenient mode reports it and returns the response unchanged.
+ */
+export function validateResponse<T>(
+  response: APIResponse<T>,
+  schema: ResponseSchema<T>,
+  validation: Pick<ResolvedValidation, 'mode' | 'onIssues'>,
+  context: { method: HTTPMethod; path: string }
+): APIResponse<T> {
+  if (!response.success) {
+    return response;
+  }
+
+  const result = runSchema(schema, response.data);
+  if (result.success) {
+    return { ...response, data: result.data };
+  }
+
+  if (validation.mode === 'lenient') {
+    (validation.onIssues || warnIssues)(result.issues, context);
+    return response;
+  }
+  validation.onIssues?.(result.issues, context);
+
+  return {
+    success: false,
+    message: response.message,
+    error: new SenseSpaceError({
+      kind: 'validation',
+      message: `Response from ${context.method} ${context.path} failed validation: ${result.issues.map(formatIssue).join('; ')}`,
+      issues: result.issues,
+      retryable: false
+    })
+  };
+}
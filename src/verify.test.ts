@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createHmac } from 'node:crypto';
+import { buildDataCheckString, verifyLaunchData, verifyLaunchToken, createMemoryReplayStore } from './verify';
+
+const SECRET = 'launch-secret';
+const NOW = Date.now();
+const now = () => NOW;
+const authDate = Math.floor(NOW / 1000) - 60;
+
+// Sign the way a host backend does: keys in byte order (Python's sorted, Go's sort.Strings)
+function signLaunchData(fields: Record<string, string>, secret = SECRET): string {
+  const checkString = Object.keys(fields).sort().map(key => `${key}=${fields[key]}`).join('\n');
+  const signature = createHmac('sha256', secret).update(checkString).digest('hex');
+  return new URLSearchParams({ ...fields, ss_signature: signature }).toString();
+}
+
+function signToken(claims: Record<string, unknown>, secret = SECRET): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${signingInput}.${createHmac('sha256', secret).update(signingInput).digest('base64url')}`;
+}
+
+const fields = {
+  ss_user_id: 'user-1',
+  ss_userId: 'legacy',
+  ss_auth_date: String(authDate),
+  ss_platform: 'ios',
+  ss_start_param: 'ref_42'
+};
+
+describe('buildDataCheckString', () => {
+  it('sorts keys by code unit, independent of locale', () => {
+    const params = new URLSearchParams('ss_user_id=a&ss_userId=b&ss_Zone=c&ss_signature=x');
+    expect(buildDataCheckString(params)).toBe('ss_Zone=c\nss_userId=b\nss_user_id=a');
+  });
+});
+
+describe('verifyLaunchData', () => {
+  it('accepts data signed with byte-ordered keys', async () => {
+    const result = await verifyLaunchData(signLaunchData(fields), { secret: SECRET, now });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ userId: 'user-1', authDate, platform: 'ios', startParam: 'ref_42' });
+  });
+
+  it('rejects tampered data and the wrong secret', async () => {
+    const raw = signLaunchData(fields);
+
+    expect((await verifyLaunchData(raw.replace('user-1', 'user-2'), { secret: SECRET, now })).error?.code).toBe('invalid_signature');
+    expect((await verifyLaunchData(raw, { secret: 'other', now })).error?.code).toBe('invalid_signature');
+  });
+
+  it('rejects expired, future and malformed data', async () => {
+    const raw = signLaunchData(fields);
+
+    expect((await verifyLaunchData(raw, { secret: SECRET, now: () => NOW + 2 * 86400_000 })).error?.code).toBe('expired');
+    expect((await verifyLaunchData(raw, { secret: SECRET, now: () => NOW - 3600_000 })).error?.code).toBe('not_yet_valid');
+    expect((await verifyLaunchData('ss_user_id=user-1', { secret: SECRET, now })).error?.code).toBe('malformed');
+    expect((await verifyLaunchData(signLaunchData({ ss_user_id: 'user-1' }), { secret: SECRET, now })).error?.code).toBe('malformed');
+  });
+
+  it('rejects replayed data', async () => {
+    const raw = signLaunchData(fields);
+    const replayStore = createMemoryReplayStore();
+
+    expect((await verifyLaunchData(raw, { secret: SECRET, now, replayStore })).success).toBe(true);
+    expect((await verifyLaunchData(raw, { secret: SECRET, now, replayStore })).error?.code).toBe('replayed');
+  });
+
+  it('accepts concurrent verifications of the same data once', async () => {
+    const raw = signLaunchData(fields);
+    const replayStore = createMemoryReplayStore();
+
+    const results = await Promise.all([1, 2, 3].map(() => verifyLaunchData(raw, { secret: SECRET, now, replayStore })));
+
+    expect(results.filter(result => result.success)).toHaveLength(1);
+    expect(results.filter(result => result.error?.code === 'replayed')).toHaveLength(2);
+  });
+
+  it('keeps replay keys until the data stops being accepted', async () => {
+    const raw = signLaunchData(fields);
+    const replayStore = { add: vi.fn(() => true) };
+
+    await verifyLaunchData(raw, { secret: SECRET, now, maxAge: 3600, clockSkew: 30, replayStore });
+
+    expect(replayStore.add).toHaveBeenCalledWith(new URLSearchParams(raw).get('ss_signature'), authDate + 3600 + 30);
+  });
+});
+
+describe('verifyLaunchToken', () => {
+  const claims = { sub: 'user-1', iat: authDate, exp: authDate + 600, iss: 'sensespace', jti: 'launch-1' };
+
+  it('accepts an HS256 token', async () => {
+    const result = await verifyLaunchToken(signToken(claims), { secret: SECRET, now, issuer: 'sensespace' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ userId: 'user-1', authDate });
+  });
+
+  it('rejects bad signatures, claims and replays', async () => {
+    const token = signToken(claims);
+    const replayStore = createMemoryReplayStore();
+
+    expect((await verifyLaunchToken(signToken(claims, 'other'), { secret: SECRET, now })).error?.code).toBe('invalid_signature');
+    expect((await verifyLaunchToken(token, { secret: SECRET, now, issuer: 'other' })).error?.code).toBe('invalid_claims');
+    expect((await verifyLaunchToken(token, { secret: SECRET, now: () => NOW + 3600_000 })).error?.code).toBe('expired');
+    expect((await verifyLaunchToken('not.a.jwt', { secret: SECRET, now })).error?.code).toBe('malformed');
+
+    expect((await verifyLaunchToken(token, { secret: SECRET, now, replayStore })).success).toBe(true);
+    expect((await verifyLaunchToken(token, { secret: SECRET, now, replayStore })).error?.code).toBe('replayed');
+  });
+
+  it('keeps replay keys until the token stops being accepted', async () => {
+    const replayStore = { add: vi.fn(() => true) };
+    const { exp: _exp, ...withoutExp } = claims;
+
+    await verifyLaunchToken(signToken(claims), { secret: SECRET, now, clockSkew: 30, replayStore });
+    await verifyLaunchToken(signToken({ ...withoutExp, jti: 'launch-2' }), { secret: SECRET, now, maxAge: 3600, clockSkew: 30, replayStore });
+
+    expect(replayStore.add.mock.calls).toEqual([['launch-1', claims.exp + 30], ['launch-2', authDate + 3600 + 30]]);
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Verification of signed mini-app launch data and wallet sign-in messages
+ */
+import {
+  APIResponse,
+  LaunchIdentity,
+  LaunchVerificationOptions,
+  LaunchTokenVerificationOptions,
+  ReplayStore,
+  JWTAlgorithm,
+  SignInVerificationOptions,
+  VerifiedSignIn
+} from './types';
+import { SenseSpaceError } from './errors';
+import { splitJWT, base64UrlToBytes } from './jwt';
+import { parseSignInMessage, getSignInUserId } from './siwe';
+import { isAddress, recoverMessageAddress, toChecksumAddress } from './ethereum';
+import { compareCodeUnits } from './utils';
+
+const DEFAULT_MAX_AGE = 86400; // 24 hours, in seconds
+const DEFAULT_CLOCK_SKEW = 60; // seconds
+const DEFAULT_SIGN_IN_MAX_AGE = 600; // 10 minutes, in seconds
+const SIGNATURE_PARAM = 'ss_signature';
+
+function rejected<T = LaunchIdentity>(code: string, message: string, cause?: unknown): APIResponse<T> {
+  return {
+    success: false,
+    message: null,
+    error: new SenseSpaceError({ kind: 'unauthorized', code, message, retryable: false, cause })
+  };
+}
+
+function resolveCrypto(crypto?: Crypto): SubtleCrypto {
+  const subtle = (crypto || globalThis.crypto)?.subtle;
+  if (!subtle) {
+    throw new Error('Web Crypto is not available; pass `crypto` (e.g. require("node:crypto").webcrypto)');
+  }
+  return subtle;
+}
+
+function hexToBytes(hex: string) {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) {
+    return null;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Build the string the host signs: every launch parameter except the signature,
+ * sorted by key in code unit order, as `key=value` lines
+ */
+export function buildDataCheckString(params: URLSearchParams): string {
+  return Array.from(params.entries())
+    .filter(([key]) => key !== SIGNATURE_PARAM)
+    .sort(([a], [b]) => compareCodeUnits(a, b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+}
+
+/**
+ * Check issue time against the allowed age and clock skew (all in seconds)
+ */
+function checkIssuedAt(issuedAt: number, nowSeconds: number, maxAge: number, clockSkew: number): APIResponse<LaunchIdentity> | null {
+  if (issuedAt > nowSeconds + clockSkew) {
+    return rejected('not_yet_valid', 'Launch data is issued in the future');
+  }
+  if (nowSeconds - issuedAt > maxAge + clockSkew) {
+    return rejected('expired', 'Launch data has expired');
+  }
+  return null;
+}
+
+/**
+ * Record `key` until `expiresAt` (the end of the accepted window, clock skew included),
+ * rejecting it if it was already recorded
+ */
+async function checkReplay(store: ReplayStore | undefined, key: string, expiresAt: number): Promise<APIResponse<LaunchIdentity> | null> {
+  if (!store || await store.add(key, expiresAt)) {
+    return null;
+  }
+  return rejected('replayed', 'Launch data has already been used');
+}
+
+/**
+ * Verify HMAC-SHA256 signed launch parameters (the `raw` string from getLaunchContext)
+ */
+export async function verifyLaunchData(
+  raw: string | URLSearchParams,
+  options: LaunchVerificationOptions
+): Promise<APIResponse<LaunchIdentity>> {
+  const { secret, maxAge = DEFAULT_MAX_AGE, clockSkew = DEFAULT_CLOCK_SKEW, replayStore, now = Date.now } = options;
+  const subtle = resolveCrypto(options.crypto);
+  const params = typeof raw === 'string' ? new URLSearchParams(raw.replace(/^[?#]/, '')) : raw;
+
+  const signature = hexToBytes(params.get(SIGNATURE_PARAM) || '');
+  if (!signature) {
+    return rejected('malformed', 'Launch data is missing a valid signature');
+  }
+
+  const userId = params.get('ss_user_id');
+  const authDate = Number(params.get('ss_auth_date'));
+  if (!userId || !Number.isInteger(authDate) || authDate <= 0) {
+    return rejected('malformed', 'Launch data is missing ss_user_id or ss_auth_date');
+  }
+
+  const encoder = new TextEncoder();
+  const key = await subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+  const valid = await subtle.verify('HMAC', key, signature, encoder.encode(buildDataCheckString(params)));
+  if (!valid) {
+    return rejected('invalid_signature', 'Launch data signature does not match');
+  }
+
+  const nowSeconds = Math.floor(now() / 1000);
+  const timeError = checkIssuedAt(authDate, nowSeconds, maxAge, clockSkew);
+  if (timeError) {
+    return timeError;
+  }
+
+  const replayError = await checkReplay(replayStore, params.get(SIGNATURE_PARAM)!, authDate + maxAge + clockSkew);
+  if (replayError) {
+    return replayError;
+  }
+
+  return {
+    success: true,
+    message: null,
+    data: {
+      userId,
+      authDate,
+      platform: params.get('ss_platform') || undefined,
+      startParam: params.get('ss_start_param') || undefined
+    }
+  };
+}
+
+async function importVerificationKey(
+  subtle: SubtleCrypto,
+  algorithm: JWTAlgorithm,
+  options: LaunchTokenVerificationOptions
+): Promise<CryptoKey> {
+  if (algorithm === 'HS256') {
+    if (!options.secret) {
+      throw new Error('HS256 launch tokens require a `secret`');
+    }
+    return subtle.importKey('raw', new TextEncoder().encode(options.secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+  }
+
+  const params = algorithm === 'RS256'
+    ? { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+    : { name: 'ECDSA', namedCurve: 'P-256' };
+  const publicKey = options.publicKey;
+
+  if (!publicKey) {
+    throw new Error(`${algorithm} launch tokens require a \`publicKey\``);
+  }
+  if (typeof publicKey === 'string') {
+    const body = publicKey.replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '').replace(/\s+/g, '');
+    const der = base64UrlToBytes(body);
+    return subtle.importKey('spki', der as BufferSource, params, false, ['verify']);
+  }
+  if ('type' in publicKey && 'algorithm' in publicKey) {
+    return publicKey as CryptoKey;
+  }
+  return subtle.importKey('jwk', publicKey as JsonWebKey, params, false, ['verify']);
+}
+
+/**
+ * Verify a JWT carrying launch data, signed with a shared secret (HS256)
+ * or the host's private key (RS256, ES256)
+ */
+export async function verifyLaunchToken(
+  token: string,
+  options: LaunchTokenVerificationOptions
+): Promise<APIResponse<LaunchIdentity>> {
+  const { maxAge = DEFAULT_MAX_AGE, clockSkew = DEFAULT_CLOCK_SKEW, replayStore, now = Date.now } = options;
+  const subtle = resolveCrypto(options.crypto);
+  const algorithms = options.algorithms || (options.secret ? ['HS256'] : ['RS256', 'ES256']);
+
+  const parts = splitJWT(token);
+  if (!parts) {
+    return rejected('malformed', 'Launch token is not a valid JWT');
+  }
+
+  const algorithm = parts.header.alg as JWTAlgorithm;
+  if (!algorithms.includes(algorithm)) {
+    return rejected('invalid_signature', `Launch token algorithm "${parts.header.alg}" is not allowed`);
+  }
+
+  let valid: boolean;
+  try {
+    const key = await importVerificationKey(subtle, algorithm, options);
+    const verifyParams = algorithm === 'HS256'
+      ? 'HMAC'
+      : algorithm === 'RS256'
+        ? 'RSASSA-PKCS1-v1_5'
+        : { name: 'ECDSA', hash: 'SHA-256' };
+    valid = await subtle.verify(verifyParams, key, parts.signature as BufferSource, new TextEncoder().encode(parts.signingInput));
+  } catch (error) {
+    return rejected('invalid_signature', 'Launch token signature could not be verified', error);
+  }
+  if (!valid) {
+    return rejected('invalid_signature', 'Launch token signature does not match');
+  }
+
+  const claims = parts.payload;
+  const nowSeconds = Math.floor(now() / 1000);
+
+  if (typeof claims.exp === 'number' && nowSeconds > claims.exp + clockSkew) {
+    return rejected('expired', 'Launch token has expired');
+  }
+  if (typeof claims.nbf === 'number' && nowSeconds + clockSkew < claims.nbf) {
+    return rejected('not_yet_valid', 'Launch token is not valid yet');
+  }
+  if (typeof claims.iat !== 'number') {
+    return rejected('malformed', 'Launch token is missing the iat claim');
+  }
+  const timeError = checkIssuedAt(claims.iat, nowSeconds, maxAge, clockSkew);
+  if (timeError) {
+    return timeError;
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    return rejected('invalid_claims', 'Launch token issuer does not match');
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      return rejected('invalid_claims', 'Launch token audience does not match');
+    }
+  }
+
+  const userId = claims.sub || claims.user_id;
+  if (!userId || typeof userId !== 'string') {
+    return rejected('malformed', 'Launch token is missing the user id');
+  }
+
+  const expiresAt = (typeof claims.exp === 'number' ? claims.exp : claims.iat + maxAge) + clockSkew;
+  const replayError = await checkReplay(replayStore, claims.jti || parts.signingInput, expiresAt);
+  if (replayError) {
+    return replayError;
+  }
+
+  return {
+    success: true,
+    message: null,
+    data: {
+      userId,
+      authDate: claims.iat,
+      platform: claims.platform,
+      startParam: claims.start_param,
+      walletAddress: claims.wallet_address,
+      claims
+    }
+  };
+}
+
+/**
+ * Verify a signed sign-in message from `signInWithWallet`: the signature must
+ * recover to the message's address, and the domain, nonce and validity window must match
+ */
+export async function verifySignIn(
+  message: string,
+  signature: string,
+  options: SignInVerificationOptions
+): Promise<APIResponse<VerifiedSignIn>> {
+  const { maxAge = DEFAULT_SIGN_IN_MAX_AGE, clockSkew = DEFAULT_CLOCK_SKEW, now = Date.now } = options;
+  if (options.nonce === undefined && !options.verifyNonce) {
+    throw new Error('verifySignIn requires a `nonce` or `verifyNonce` option');
+  }
+
+  const fields = parseSignInMessage(message);
+  if (!fields || !isAddress(fields.address)) {
+    return rejected('malformed', 'Sign-in message is not a valid EIP-4361 message');
+  }
+
+  const domains = Array.isArray(options.domain) ? options.domain : [options.domain];
+  if (!domains.includes(fields.domain)) {
+    return rejected('invalid_claims', `Sign-in message domain "${fields.domain}" is not allowed`);
+  }
+
+  const nowSeconds = now() / 1000;
+  const issuedAt = Date.parse(fields.issuedAt) / 1000;
+  const expiresAt = fields.expirationTime ? Date.parse(fields.expirationTime) / 1000 : issuedAt + maxAge;
+  const notBefore = fields.notBefore ? Date.parse(fields.notBefore) / 1000 : issuedAt;
+  if ([issuedAt, expiresAt, notBefore].some(Number.isNaN)) {
+    return rejected('malformed', 'Sign-in message has an invalid timestamp');
+  }
+  if (nowSeconds > Math.min(expiresAt, issuedAt + maxAge) + clockSkew) {
+    return rejected('expired', 'Sign-in message has expired');
+  }
+  if (nowSeconds + clockSkew < Math.max(issuedAt, notBefore)) {
+    return rejected('not_yet_valid', 'Sign-in message is not valid yet');
+  }
+
+  const address = toChecksumAddress(fields.address);
+  if (options.address && options.address.toLowerCase() !== address.toLowerCase()) {
+    return rejected('invalid_claims', 'Sign-in message is for a different wallet address');
+  }
+
+  const userId = getSignInUserId(fields);
+  if (options.userId && options.userId !== userId) {
+    return rejected('invalid_claims', 'Sign-in message is not bound to the expected user');
+  }
+
+  // Externally owned accounts sign with their key; contract wallets need `verifySignature`
+  let valid = recoverMessageAddress(message, signature)?.toLowerCase() === address.toLowerCase();
+  if (!valid && options.verifySignature) {
+    try {
+      valid = await options.verifySignature(message, signature, address);
+    } catch (error) {
+      return rejected('invalid_signature', 'Sign-in signature could not be verified', error);
+    }
+  }
+  if (!valid) {
+    return rejected('invalid_signature', 'Sign-in signature does not match the address');
+  }
+
+  // Checked last so a nonce is only consumed by an authentic message
+  const nonceValid = options.verifyNonce
+    ? await options.verifyNonce(fields.nonce)
+    : fields.nonce === options.nonce;
+  if (!nonceValid) {
+    return rejected('replayed', 'Sign-in nonce is invalid or was already used');
+  }
+
+  return {
+    success: true,
+    message: null,
+    data: {
+      address,
+      userId,
+      chainId: fields.chainId,
+      nonce: fields.nonce,
+      issuedAt: fields.issuedAt,
+      expirationTime: fields.expirationTime,
+      fields
+    }
+  };
+}
+
+/**
+ * In-memory replay store for single-process servers. Use a shared store
+ * (e.g. Redis) when running several instances.
+ */
+export function createMemoryReplayStore(): ReplayStore {
+  const seen = new Map<string, number>();
+
+  return {
+    add(key: string, expiresAt: number) {
+      // Sweep expired keys so the store does not grow without bound
+      const nowSeconds = Date.now() / 1000;
+      seen.forEach((expiry, seenKey) => {
+        if (expiry < nowSeconds) {
+          seen.delete(seenKey);
+        }
+      });
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.set(key, expiresAt);
+      return true;
+    }
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Wallet actions performed by the SenseSpace host on behalf of the user
+ */
+import {
+  APIResponse,
+  HostBridge,
+  HostBridgeRequestOptions,
+  SenseSpaceWallet,
+  SignMessageRequest,
+  SignMessageResult,
+  SignTypedDataRequest,
+  SignTypedDataResult,
+  TransactionRequest,
+  TransactionResult,
+  WalletAccount
+} from './types';
+import { SenseSpaceError } from './errors';
+
+// Wallet prompts wait for the user, so they get far more time than regular bridge calls
+const DEFAULT_WALLET_TIMEOUT = 300000; // 5 minutes
+
+// Host error codes meaning the user declined the prompt (4001 as in EIP-1193)
+const USER_REJECTED_CODES = ['user_rejected', '4001'];
+
+/**
+ * Host bridge backed wallet implementation
+ */
+class HostWallet implements SenseSpaceWallet {
+  private bridge: HostBridge;
+
+  constructor(bridge: HostBridge) {
+    this.bridge = bridge;
+  }
+
+  getAccount(options?: HostBridgeRequestOptions): Promise<APIResponse<WalletAccount>> {
+    // No user prompt involved, so the bridge's regular timeout applies
+    return this.bridge.request<WalletAccount>('wallet_getAccount', undefined, options);
+  }
+
+  signMessage(request: SignMessageRequest, options?: HostBridgeRequestOptions): Promise<APIResponse<SignMessageResult>> {
+    if (!request.message) {
+      return Promise.resolve(invalidWalletRequest('Message to sign is required'));
+    }
+    return this.call<SignMessageResult>('wallet_signMessage', { encoding: 'utf8', ...request }, options);
+  }
+
+  signTypedData(request: SignTypedDataRequest, options?: HostBridgeRequestOptions): Promise<APIResponse<SignTypedDataResult>> {
+    const { typedData } = request;
+    if (!typedData || !typedData.primaryType || !typedData.types?.[typedData.primaryType]) {
+      return Promise.resolve(invalidWalletRequest('Typed data must define its primaryType in types'));
+    }
+    return this.call<SignTypedDataResult>('wallet_signTypedData', request, options);
+  }
+
+  sendTransaction(request: TransactionRequest, options?: HostBridgeRequestOptions): Promise<APIResponse<TransactionResult>> {
+    if (!request.to && !request.data) {
+      return Promise.resolve(invalidWalletRequest('Transaction requires a `to` address or contract `data`'));
+    }
+    return this.call<TransactionResult>('wallet_sendTransaction', request, options);
+  }
+
+  private async call<T>(method: string, params: unknown, options?: HostBridgeRequestOptions): Promise<APIResponse<T>> {
+    const response = await this.bridge.request<T>(method, params, {
+      timeout: DEFAULT_WALLET_TIMEOUT,
+      ...options
+    });
+
+    const error = response.error;
+    if (error?.kind === 'host' && error.code && USER_REJECTED_CODES.includes(error.code)) {
+      return {
+        ...response,
+        error: new SenseSpaceError({
+          kind: 'user_rejected',
+          message: error.message || 'User rejected the request',
+          code: error.code,
+          retryable: false,
+          cause: error
+        })
+      };
+    }
+
+    return response;
+  }
+}
+
+function invalidWalletRequest<T>(message: string): APIResponse<T> {
+  return {
+    success: false,
+    message: null,
+    error: new SenseSpaceError({ kind: 'invalid_request', message, retryable: false })
+  };
+}
+
+/**
+ * Create a wallet that asks the SenseSpace host to sign and send on the user's behalf
+ */
+export function createWallet(bridge: HostBridge): SenseSpaceWallet {
+  return new HostWallet(bridge);
+}
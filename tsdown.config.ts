@@ -3,13 +3,16 @@ import { defineConfig } from 'tsdown'
 export default defineConfig({
   entry: {
     index: 'src/index.ts',
-    react: 'src/react.ts'
+    react: 'src/react.ts',
+    server: 'src/server.ts',
+    testing: 'src/testing.ts',
+    'testing-react': 'src/testing-react.ts'
   },
   format: ['cjs', 'esm'],
   dts: true,
   clean: true,
   outDir: 'dist',
   target: 'es2020',
-  platform: 'browser',
+  platform: 'neutral',
   external: ['react'],
 })